@@ -0,0 +1,21 @@
+CREATE TYPE "public"."meal_type" AS ENUM('breakfast', 'lunch', 'dinner', 'snack');--> statement-breakpoint
+CREATE TABLE "diary_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"dish_name" varchar(255) NOT NULL,
+	"fdc_id" integer NOT NULL,
+	"food_name" varchar(255) NOT NULL,
+	"servings" double precision NOT NULL,
+	"meal_type" "meal_type" NOT NULL,
+	"consumed_at" timestamp with time zone NOT NULL,
+	"calories_per_serving" integer NOT NULL,
+	"total_calories" integer NOT NULL,
+	"macronutrients_per_serving" jsonb NOT NULL,
+	"total_macronutrients" jsonb NOT NULL,
+	"source" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD CONSTRAINT "diary_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "diary_entries_user_consumed_at_idx" ON "diary_entries" USING btree ("user_id","consumed_at");
\ No newline at end of file
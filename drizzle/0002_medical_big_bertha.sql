@@ -0,0 +1,16 @@
+CREATE TYPE "public"."macro_target_unit" AS ENUM('grams', 'percent');--> statement-breakpoint
+CREATE TABLE "user_goals" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"daily_calories" integer NOT NULL,
+	"macro_target_unit" "macro_target_unit",
+	"protein_target" double precision,
+	"fat_target" double precision,
+	"carbohydrates_target" double precision,
+	"fiber_limit" double precision,
+	"sugars_limit" double precision,
+	"saturated_fat_limit" double precision,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_goals" ADD CONSTRAINT "user_goals_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
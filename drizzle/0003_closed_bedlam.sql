@@ -0,0 +1,51 @@
+CREATE TABLE "custom_foods" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"brand" varchar(255),
+	"serving_size_grams" double precision NOT NULL,
+	"calories_per_serving" double precision NOT NULL,
+	"macronutrients_per_serving" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "recipe_ingredients" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"recipe_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"fdc_id" integer,
+	"custom_food_id" integer,
+	"name" varchar(255) NOT NULL,
+	"quantity" double precision NOT NULL,
+	"unit" varchar(20) NOT NULL,
+	"grams" double precision NOT NULL,
+	"calories_per_100g" double precision NOT NULL,
+	"macronutrients_per_100g" jsonb NOT NULL,
+	CONSTRAINT "recipe_ingredients_source_check" CHECK (("recipe_ingredients"."fdc_id" IS NULL) <> ("recipe_ingredients"."custom_food_id" IS NULL))
+);
+--> statement-breakpoint
+CREATE TABLE "recipes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"servings" double precision NOT NULL,
+	"total_calories" integer NOT NULL,
+	"total_macronutrients" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "diary_entries" ALTER COLUMN "fdc_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD COLUMN "custom_food_id" integer;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD COLUMN "recipe_id" integer;--> statement-breakpoint
+ALTER TABLE "custom_foods" ADD CONSTRAINT "custom_foods_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_custom_food_id_custom_foods_id_fk" FOREIGN KEY ("custom_food_id") REFERENCES "public"."custom_foods"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recipes" ADD CONSTRAINT "recipes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "custom_foods_user_name_idx" ON "custom_foods" USING btree ("user_id","name");--> statement-breakpoint
+CREATE INDEX "recipe_ingredients_recipe_idx" ON "recipe_ingredients" USING btree ("recipe_id");--> statement-breakpoint
+CREATE INDEX "recipe_ingredients_custom_food_idx" ON "recipe_ingredients" USING btree ("custom_food_id");--> statement-breakpoint
+CREATE INDEX "recipes_user_name_idx" ON "recipes" USING btree ("user_id","name");--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD CONSTRAINT "diary_entries_custom_food_id_custom_foods_id_fk" FOREIGN KEY ("custom_food_id") REFERENCES "public"."custom_foods"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD CONSTRAINT "diary_entries_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,44 @@
+CREATE TABLE "fdc_food_nutrients" (
+	"fdc_id" integer NOT NULL,
+	"nutrient_id" integer NOT NULL,
+	"nutrient_name" varchar(255) NOT NULL,
+	"nutrient_number" varchar(20) NOT NULL,
+	"unit_name" varchar(20) NOT NULL,
+	"amount" double precision NOT NULL,
+	CONSTRAINT "fdc_food_nutrients_fdc_id_nutrient_id_pk" PRIMARY KEY("fdc_id","nutrient_id")
+);
+--> statement-breakpoint
+CREATE TABLE "fdc_food_portions" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"fdc_id" integer NOT NULL,
+	"sequence_number" integer,
+	"amount" double precision,
+	"measure_unit_name" varchar(100),
+	"measure_unit_abbreviation" varchar(50),
+	"modifier" varchar(255),
+	"portion_description" text,
+	"gram_weight" double precision NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "fdc_foods" (
+	"fdc_id" integer PRIMARY KEY NOT NULL,
+	"description" text NOT NULL,
+	"data_type" varchar(50) NOT NULL,
+	"published_date" date NOT NULL,
+	"food_category" varchar(255),
+	"brand_owner" varchar(255),
+	"brand_name" varchar(255),
+	"gtin_upc" varchar(20),
+	"ingredients" text,
+	"serving_size" double precision,
+	"serving_size_unit" varchar(20),
+	"household_serving_full_text" text,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fdc_food_nutrients" ADD CONSTRAINT "fdc_food_nutrients_fdc_id_fdc_foods_fdc_id_fk" FOREIGN KEY ("fdc_id") REFERENCES "public"."fdc_foods"("fdc_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fdc_food_portions" ADD CONSTRAINT "fdc_food_portions_fdc_id_fdc_foods_fdc_id_fk" FOREIGN KEY ("fdc_id") REFERENCES "public"."fdc_foods"("fdc_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "fdc_food_portions_fdc_id_idx" ON "fdc_food_portions" USING btree ("fdc_id");--> statement-breakpoint
+CREATE INDEX "fdc_foods_description_search_idx" ON "fdc_foods" USING gin (to_tsvector('english', "description"));--> statement-breakpoint
+CREATE INDEX "fdc_foods_data_type_idx" ON "fdc_foods" USING btree ("data_type");--> statement-breakpoint
+CREATE INDEX "fdc_foods_gtin_upc_idx" ON "fdc_foods" USING btree (ltrim("gtin_upc", '0'));
\ No newline at end of file
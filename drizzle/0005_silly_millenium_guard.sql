@@ -0,0 +1,13 @@
+CREATE TABLE "match_corrections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"query" varchar(255) NOT NULL,
+	"fdc_id" integer NOT NULL,
+	"food_name" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "match_corrections" ADD CONSTRAINT "match_corrections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "match_corrections_user_query_idx" ON "match_corrections" USING btree ("user_id","query");--> statement-breakpoint
+CREATE INDEX "match_corrections_query_idx" ON "match_corrections" USING btree ("query","fdc_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TYPE "public"."unit_system" AS ENUM('metric', 'imperial');--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "timezone" varchar(64) DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "preferred_units" "unit_system" DEFAULT 'metric' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "dietary_preferences" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."plan_tier" AS ENUM('free', 'pro', 'internal');--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "plan" "plan_tier" DEFAULT 'free' NOT NULL;
\ No newline at end of file
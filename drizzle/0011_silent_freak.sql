@@ -0,0 +1,12 @@
+CREATE TYPE "public"."daily_metric" AS ENUM('lookups', 'usda_requests', 'usda_errors');--> statement-breakpoint
+CREATE TYPE "public"."user_role" AS ENUM('user', 'nutritionist', 'admin');--> statement-breakpoint
+CREATE TABLE "daily_metrics" (
+	"day" date NOT NULL,
+	"metric" "daily_metric" NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "daily_metrics_day_metric_pk" PRIMARY KEY("day","metric")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" "user_role" DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "disabled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "disabled_reason" text;
\ No newline at end of file
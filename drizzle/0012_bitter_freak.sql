@@ -0,0 +1,34 @@
+CREATE TYPE "public"."share_scope" AS ENUM('diary', 'summary', 'goals');--> statement-breakpoint
+CREATE TYPE "public"."share_status" AS ENUM('pending', 'active', 'declined', 'revoked');--> statement-breakpoint
+CREATE TABLE "coach_access_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"grant_id" integer NOT NULL,
+	"client_id" integer NOT NULL,
+	"coach_id" integer NOT NULL,
+	"scope" "share_scope" NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"path" varchar(500) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "coach_grants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"coach_id" integer NOT NULL,
+	"scopes" jsonb NOT NULL,
+	"status" "share_status" DEFAULT 'pending' NOT NULL,
+	"accepted_at" timestamp,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "coach_access_logs" ADD CONSTRAINT "coach_access_logs_grant_id_coach_grants_id_fk" FOREIGN KEY ("grant_id") REFERENCES "public"."coach_grants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_access_logs" ADD CONSTRAINT "coach_access_logs_client_id_users_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_access_logs" ADD CONSTRAINT "coach_access_logs_coach_id_users_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_grants" ADD CONSTRAINT "coach_grants_client_id_users_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_grants" ADD CONSTRAINT "coach_grants_coach_id_users_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "coach_access_logs_client_idx" ON "coach_access_logs" USING btree ("client_id","created_at");--> statement-breakpoint
+CREATE INDEX "coach_grants_client_idx" ON "coach_grants" USING btree ("client_id");--> statement-breakpoint
+CREATE INDEX "coach_grants_coach_idx" ON "coach_grants" USING btree ("coach_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "coach_grants_open_pair_idx" ON "coach_grants" USING btree ("client_id","coach_id") WHERE "coach_grants"."status" in ('pending', 'active');
\ No newline at end of file
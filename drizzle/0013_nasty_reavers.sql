@@ -0,0 +1 @@
+ALTER TABLE "fdc_foods" ALTER COLUMN "published_date" DROP NOT NULL;
\ No newline at end of file
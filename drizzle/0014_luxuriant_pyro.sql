@@ -0,0 +1,15 @@
+CREATE TABLE "off_products" (
+	"code" varchar(50) PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"brand" varchar(255),
+	"category" varchar(255),
+	"ingredients" text,
+	"serving_size" double precision,
+	"household_serving_full_text" text,
+	"nutrients" jsonb NOT NULL,
+	"last_modified_at" timestamp,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "off_products_search_idx" ON "off_products" USING gin (to_tsvector('simple', "name" || ' ' || coalesce("brand", '')));--> statement-breakpoint
+CREATE INDEX "off_products_code_idx" ON "off_products" USING btree (ltrim("code", '0'));
\ No newline at end of file
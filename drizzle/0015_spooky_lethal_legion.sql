@@ -0,0 +1,6 @@
+ALTER TABLE "coach_grants" ALTER COLUMN "coach_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "coach_grants" ADD COLUMN "coach_email" varchar(255);--> statement-breakpoint
+UPDATE "coach_grants" SET "coach_email" = "users"."email" FROM "users" WHERE "users"."id" = "coach_grants"."coach_id";--> statement-breakpoint
+ALTER TABLE "coach_grants" ALTER COLUMN "coach_email" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "coach_grants_coach_email_idx" ON "coach_grants" USING btree ("coach_email");--> statement-breakpoint
+CREATE UNIQUE INDEX "coach_grants_open_email_idx" ON "coach_grants" USING btree ("client_id","coach_email") WHERE "coach_grants"."status" in ('pending', 'active');
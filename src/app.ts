@@ -4,8 +4,19 @@ import helmet from 'helmet';
 import path from 'path';
 import fs from 'fs';
 import { generalLimiterMiddleware } from './middleware/rateLimiter';
+import { identifyUser, requireScope } from './middleware/auth';
 import authRoutes from './routes/auth';
 import calorieRoutes from './routes/calories';
+import diaryRoutes from './routes/diary';
+import summaryRoutes from './routes/summary';
+import goalsRoutes from './routes/goals';
+import customFoodRoutes from './routes/customFoods';
+import foodRoutes from './routes/foods';
+import recipeRoutes from './routes/recipes';
+import matchRoutes from './routes/matches';
+import meRoutes from './routes/me';
+import adminRoutes from './routes/admin';
+import sharingRoutes from './routes/sharing';
 import { env } from './env';
 import logger from './utils/logger';
 
@@ -53,6 +64,7 @@ app.use((req, res, next) => {
   next();
 });
 
+app.use(identifyUser); // Lets the general limiter count signed-in users per user instead of per IP
 app.use(generalLimiterMiddleware); // Apply general rate limiting with Redis
 
 // Health check endpoint
@@ -82,9 +94,19 @@ app.get('/', (req, res) => {
   }
 });
 
-// Routes
+// Routes. API keys reach only the routers mounted with requireScope, and only with that scope.
 app.use('/auth', authRoutes);
-app.use('/', calorieRoutes);
+app.use('/diary', requireScope('diary'), diaryRoutes);
+app.use('/summary', requireScope('summary'), summaryRoutes);
+app.use('/goals', requireScope('goals'), goalsRoutes);
+app.use('/foods/custom', requireScope('foods'), customFoodRoutes);
+app.use('/foods', requireScope('foods'), foodRoutes);
+app.use('/recipes', requireScope('recipes'), recipeRoutes);
+app.use('/matches', requireScope('matches'), matchRoutes);
+app.use('/me', meRoutes);
+app.use('/admin', adminRoutes);
+app.use('/sharing', sharingRoutes);
+app.use('/', requireScope('calories'), calorieRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
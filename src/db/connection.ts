@@ -54,4 +54,7 @@ export const testConnection = async () => {
   }
 };
 
+// Close the pool so one-off scripts can exit
+export const closeConnection = () => client.end();
+
 export default db; 
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Redis as UpstashRedis } from '@upstash/redis';
+import Redis from 'ioredis';
+import { env } from '../env';
+import logger from '../utils/logger';
+
+// Clients are created on first use, so the server starts without the ones its configuration doesn't need
+let upstashClient: UpstashRedis | null = null;
+let redisClient: Redis | null = null;
+
+/**
+ * Shared Upstash REST client
+ */
+export const getUpstashRedis = (): UpstashRedis => {
+  if (!upstashClient) {
+    upstashClient = new UpstashRedis({
+      url: env.UPSTASH_REDIS_REST_URL,
+      token: env.UPSTASH_REDIS_REST_TOKEN,
+    });
+  }
+  return upstashClient;
+};
+
+/**
+ * Shared client for a Redis-protocol server at REDIS_URL. Commands fail quickly while the
+ * server is unreachable instead of queueing, so callers can fall back.
+ */
+export const getRedisClient = (): Redis => {
+  if (!redisClient) {
+    redisClient = new Redis(env.REDIS_URL, {
+      maxRetriesPerRequest: 1,
+      commandTimeout: 1000,
+    });
+    redisClient.on('error', (error: Error) => {
+      logger.warn('Redis connection error', { error: error.message });
+    });
+  }
+  return redisClient;
+};
@@ -1,6 +1,12 @@
-import { pgTable, serial, varchar, timestamp, text } from 'drizzle-orm/pg-core';
+import { pgTable, pgEnum, serial, uuid, varchar, timestamp, text, integer, doublePrecision, jsonb, index, uniqueIndex, check, date, primaryKey } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { z } from 'zod';
+import { MEAL_TYPES, MACRO_TARGET_UNITS, PLAN_TIERS, UNIT_SYSTEMS, USER_ROLES, DAILY_METRICS, SHARE_SCOPES, SHARE_STATUSES, Macronutrients, type ApiKeyScope, type DietaryPreference, type ShareScope, type USDAFoodNutrient } from '../types';
+
+export const planTierEnum = pgEnum('plan_tier', PLAN_TIERS);
+export const userRoleEnum = pgEnum('user_role', USER_ROLES);
+export const unitSystemEnum = pgEnum('unit_system', UNIT_SYSTEMS);
 
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -8,13 +14,374 @@ export const users = pgTable('users', {
   lastName: varchar('last_name', { length: 50 }).notNull(),
   email: varchar('email', { length: 255 }).notNull().unique(),
   passwordHash: text('password_hash').notNull(),
+  // Null until the user follows the link in their verification email
+  emailVerifiedAt: timestamp('email_verified_at'),
+  // Rate limit tier; changed by operators, not through the profile endpoints
+  plan: planTierEnum('plan').default('free').notNull(),
+  role: userRoleEnum('role').default('user').notNull(),
+  // Disabled accounts can't log in, and their tokens and API keys stop working
+  disabledAt: timestamp('disabled_at'),
+  disabledReason: text('disabled_reason'),
+  // IANA time zone used for "today" and summaries when a request doesn't give one
+  timezone: varchar('timezone', { length: 64 }).default('UTC').notNull(),
+  preferredUnits: unitSystemEnum('preferred_units').default('metric').notNull(),
+  dietaryPreferences: jsonb('dietary_preferences').$type<DietaryPreference[]>().default([]).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// One login on one device. Revoking it ends every refresh token issued for that login,
+// and access tokens carry its ID so they stop working too.
+export const authSessions = pgTable('auth_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  lastRefreshedAt: timestamp('last_refreshed_at'),
+  revokedAt: timestamp('revoked_at'),
+  // logout, logout_all, token_reuse, password_reset, password_change or account_disabled
+  revokedReason: varchar('revoked_reason', { length: 20 }),
+}, (table) => [
+  index('auth_sessions_user_idx').on(table.userId),
+]);
+
+// Refresh tokens are stored as SHA-256 hashes and rotated on every use. A rotated token that is
+// presented again has been copied, so its whole session is revoked.
+export const refreshTokens = pgTable('refresh_tokens', {
+  id: serial('id').primaryKey(),
+  sessionId: uuid('session_id').notNull().references(() => authSessions.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  rotatedAt: timestamp('rotated_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('refresh_tokens_session_idx').on(table.sessionId),
+]);
+
+// Tokens mailed for email verification and password reset. Like refresh tokens they are stored
+// as SHA-256 hashes; each works once and only until it expires.
+export const emailVerificationTokens = pgTable('email_verification_tokens', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('email_verification_tokens_user_idx').on(table.userId),
+]);
+
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('password_reset_tokens_user_idx').on(table.userId),
+]);
+
+// Keys for server-to-server clients, acting as their owner within their scopes. Stored as SHA-256
+// hashes like the other tokens; the prefix is kept in clear so owners can tell their keys apart.
+export const apiKeys = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  keyPrefix: varchar('key_prefix', { length: 16 }).notNull(),
+  keyHash: varchar('key_hash', { length: 64 }).notNull().unique(),
+  scopes: jsonb('scopes').$type<ApiKeyScope[]>().notNull(),
+  lastUsedAt: timestamp('last_used_at'),
+  usageCount: integer('usage_count').default(0).notNull(),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('api_keys_user_idx').on(table.userId),
+]);
+
+export const shareScopeEnum = pgEnum('share_scope', SHARE_SCOPES);
+export const shareStatusEnum = pgEnum('share_status', SHARE_STATUSES);
+
+// A client's permission for a coach to read some of their data. Invitations are addressed to an
+// email, whether or not it has an account, and stay pending until an account with that verified
+// email accepts; either side can end them afterwards.
+export const coachGrants = pgTable('coach_grants', {
+  id: serial('id').primaryKey(),
+  clientId: integer('client_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  // Invitations are addressed by email, so they don't reveal whether it has an account; the
+  // coach's account is only recorded when they accept
+  coachId: integer('coach_id').references(() => users.id, { onDelete: 'cascade' }),
+  coachEmail: varchar('coach_email', { length: 255 }).notNull(),
+  scopes: jsonb('scopes').$type<ShareScope[]>().notNull(),
+  status: shareStatusEnum('status').default('pending').notNull(),
+  acceptedAt: timestamp('accepted_at'),
+  endedAt: timestamp('ended_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('coach_grants_client_idx').on(table.clientId),
+  index('coach_grants_coach_idx').on(table.coachId),
+  index('coach_grants_coach_email_idx').on(table.coachEmail),
+  // At most one open invitation or grant per client and coach
+  uniqueIndex('coach_grants_open_pair_idx')
+    .on(table.clientId, table.coachId)
+    .where(sql`${table.status} in ('pending', 'active')`),
+  uniqueIndex('coach_grants_open_email_idx')
+    .on(table.clientId, table.coachEmail)
+    .where(sql`${table.status} in ('pending', 'active')`),
+]);
+
+// Every read of a client's data by a coach, for the client to review
+export const coachAccessLogs = pgTable('coach_access_logs', {
+  id: serial('id').primaryKey(),
+  grantId: integer('grant_id').notNull().references(() => coachGrants.id, { onDelete: 'cascade' }),
+  clientId: integer('client_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  coachId: integer('coach_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  scope: shareScopeEnum('scope').notNull(),
+  method: varchar('method', { length: 10 }).notNull(),
+  path: varchar('path', { length: 500 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('coach_access_logs_client_idx').on(table.clientId, table.createdAt),
+]);
+
+export const mealTypeEnum = pgEnum('meal_type', MEAL_TYPES);
+
+// Food diary entries keep a snapshot of the nutrition data at the time of logging,
+// so later changes in USDA data don't rewrite a user's history
+export const diaryEntries = pgTable('diary_entries', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  dishName: varchar('dish_name', { length: 255 }).notNull(),
+  // Exactly one of these identifies what was eaten
+  fdcId: integer('fdc_id'),
+  customFoodId: integer('custom_food_id').references(() => customFoods.id, { onDelete: 'set null' }),
+  recipeId: integer('recipe_id').references(() => recipes.id, { onDelete: 'set null' }),
+  foodName: varchar('food_name', { length: 255 }).notNull(),
+  servings: doublePrecision('servings').notNull(),
+  mealType: mealTypeEnum('meal_type').notNull(),
+  consumedAt: timestamp('consumed_at', { withTimezone: true }).notNull(),
+  caloriesPerServing: integer('calories_per_serving').notNull(),
+  totalCalories: integer('total_calories').notNull(),
+  macronutrientsPerServing: jsonb('macronutrients_per_serving').$type<Macronutrients>().notNull(),
+  totalMacronutrients: jsonb('total_macronutrients').$type<Macronutrients>().notNull(),
+  source: varchar('source', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('diary_entries_user_consumed_at_idx').on(table.userId, table.consumedAt),
+]);
+
+// Foods a user entered by hand from a nutrition label
+export const customFoods = pgTable('custom_foods', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  brand: varchar('brand', { length: 255 }),
+  servingSizeGrams: doublePrecision('serving_size_grams').notNull(),
+  caloriesPerServing: doublePrecision('calories_per_serving').notNull(),
+  macronutrientsPerServing: jsonb('macronutrients_per_serving').$type<Macronutrients>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('custom_foods_user_name_idx').on(table.userId, table.name),
+]);
+
+// Saved recipes cache their computed nutrition, refreshed whenever an ingredient changes
+export const recipes = pgTable('recipes', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  servings: doublePrecision('servings').notNull(),
+  totalCalories: integer('total_calories').notNull(),
+  totalMacronutrients: jsonb('total_macronutrients').$type<Macronutrients>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('recipes_user_name_idx').on(table.userId, table.name),
+]);
+
+// Each ingredient points at either a USDA food or one of the user's custom foods,
+// with the per-100g nutrition it was computed from
+export const recipeIngredients = pgTable('recipe_ingredients', {
+  id: serial('id').primaryKey(),
+  recipeId: integer('recipe_id').notNull().references(() => recipes.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(),
+  fdcId: integer('fdc_id'),
+  // No action rather than restrict, so cascading user deletes can remove recipes and foods together
+  customFoodId: integer('custom_food_id').references(() => customFoods.id),
+  name: varchar('name', { length: 255 }).notNull(),
+  quantity: doublePrecision('quantity').notNull(),
+  unit: varchar('unit', { length: 20 }).notNull(),
+  grams: doublePrecision('grams').notNull(),
+  caloriesPer100g: doublePrecision('calories_per_100g').notNull(),
+  macronutrientsPer100g: jsonb('macronutrients_per_100g').$type<Macronutrients>().notNull(),
+}, (table) => [
+  index('recipe_ingredients_recipe_idx').on(table.recipeId),
+  index('recipe_ingredients_custom_food_idx').on(table.customFoodId),
+  check('recipe_ingredients_source_check', sql`(${table.fdcId} IS NULL) <> (${table.customFoodId} IS NULL)`),
+]);
+
+export const macroTargetUnitEnum = pgEnum('macro_target_unit', MACRO_TARGET_UNITS);
+
+// One goals row per user; macro targets are stored as entered (grams or percent of calories)
+export const userGoals = pgTable('user_goals', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  dailyCalories: integer('daily_calories').notNull(),
+  macroTargetUnit: macroTargetUnitEnum('macro_target_unit'),
+  proteinTarget: doublePrecision('protein_target'),
+  fatTarget: doublePrecision('fat_target'),
+  carbohydratesTarget: doublePrecision('carbohydrates_target'),
+  fiberLimit: doublePrecision('fiber_limit'),
+  sugarsLimit: doublePrecision('sugars_limit'),
+  saturatedFatLimit: doublePrecision('saturated_fat_limit'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// The USDA food a user meant when the matcher picked the wrong one for a query.
+// Queries are stored normalized (trimmed, lower case, single spaces); a new correction replaces the old one.
+export const matchCorrections = pgTable('match_corrections', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  query: varchar('query', { length: 255 }).notNull(),
+  fdcId: integer('fdc_id').notNull(),
+  // Description at the time of the correction, for listings
+  foodName: varchar('food_name', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('match_corrections_user_query_idx').on(table.userId, table.query),
+  // Aggregates across users group by query
+  index('match_corrections_query_idx').on(table.query, table.fdcId),
+]);
+
+// Local copy of FoodData Central, loaded from the bulk downloads by `pnpm fdc:import`
+export const fdcFoods = pgTable('fdc_foods', {
+  fdcId: integer('fdc_id').primaryKey(),
+  description: text('description').notNull(),
+  dataType: varchar('data_type', { length: 50 }).notNull(),
+  // Re-imports only replace a food when FDC has published a newer version. Null until a CSV import
+  // has stored the food's nutrients and portions, so an interrupted import redoes the food.
+  publishedDate: date('published_date'),
+  foodCategory: varchar('food_category', { length: 255 }),
+  brandOwner: varchar('brand_owner', { length: 255 }),
+  brandName: varchar('brand_name', { length: 255 }),
+  gtinUpc: varchar('gtin_upc', { length: 20 }),
+  ingredients: text('ingredients'),
+  servingSize: doublePrecision('serving_size'),
+  servingSizeUnit: varchar('serving_size_unit', { length: 20 }),
+  householdServingFullText: text('household_serving_full_text'),
+  importedAt: timestamp('imported_at').defaultNow().notNull(),
+}, (table) => [
+  index('fdc_foods_description_search_idx').using('gin', sql`to_tsvector('english', ${table.description})`),
+  index('fdc_foods_data_type_idx').on(table.dataType),
+  // Barcodes are matched without leading zeros
+  index('fdc_foods_gtin_upc_idx').on(sql`ltrim(${table.gtinUpc}, '0')`),
+]);
+
+// Nutrient amounts per 100g
+export const fdcFoodNutrients = pgTable('fdc_food_nutrients', {
+  fdcId: integer('fdc_id').notNull().references(() => fdcFoods.fdcId, { onDelete: 'cascade' }),
+  nutrientId: integer('nutrient_id').notNull(),
+  nutrientName: varchar('nutrient_name', { length: 255 }).notNull(),
+  nutrientNumber: varchar('nutrient_number', { length: 20 }).notNull(),
+  unitName: varchar('unit_name', { length: 20 }).notNull(),
+  amount: doublePrecision('amount').notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.fdcId, table.nutrientId] }),
+]);
+
+export const fdcFoodPortions = pgTable('fdc_food_portions', {
+  id: integer('id').primaryKey(),
+  fdcId: integer('fdc_id').notNull().references(() => fdcFoods.fdcId, { onDelete: 'cascade' }),
+  sequenceNumber: integer('sequence_number'),
+  amount: doublePrecision('amount'),
+  measureUnitName: varchar('measure_unit_name', { length: 100 }),
+  measureUnitAbbreviation: varchar('measure_unit_abbreviation', { length: 50 }),
+  modifier: varchar('modifier', { length: 255 }),
+  portionDescription: text('portion_description'),
+  gramWeight: doublePrecision('gram_weight').notNull(),
+}, (table) => [
+  index('fdc_food_portions_fdc_id_idx').on(table.fdcId),
+]);
+
+// Open Food Facts products, loaded from the JSONL export by `pnpm off:import`
+export const offProducts = pgTable('off_products', {
+  // Barcode as published; lookups ignore leading zeros
+  code: varchar('code', { length: 50 }).primaryKey(),
+  name: text('name').notNull(),
+  brand: varchar('brand', { length: 255 }),
+  category: varchar('category', { length: 255 }),
+  ingredients: text('ingredients'),
+  // Label serving in grams
+  servingSize: doublePrecision('serving_size'),
+  householdServingFullText: text('household_serving_full_text'),
+  // Amounts per 100g, mapped onto FDC nutrients
+  nutrients: jsonb('nutrients').$type<USDAFoodNutrient[]>().notNull(),
+  // Re-imports only replace a product that has been edited since
+  lastModifiedAt: timestamp('last_modified_at'),
+  importedAt: timestamp('imported_at').defaultNow().notNull(),
+}, (table) => [
+  // Product names come in many languages, so words aren't stemmed
+  index('off_products_search_idx').using('gin', sql`to_tsvector('simple', ${table.name} || ' ' || coalesce(${table.brand}, ''))`),
+  index('off_products_code_idx').on(sql`ltrim(${table.code}, '0')`),
+]);
+
+export const dailyMetricEnum = pgEnum('daily_metric', DAILY_METRICS);
+
+// Usage counters per UTC day for the admin stats, incremented as things happen
+export const dailyMetrics = pgTable('daily_metrics', {
+  day: date('day', { mode: 'string' }).notNull(),
+  metric: dailyMetricEnum('metric').notNull(),
+  count: integer('count').default(0).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.day, table.metric] }),
+]);
+
 // Schemas for validation
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
+export const insertDiaryEntrySchema = createInsertSchema(diaryEntries);
+export const selectDiaryEntrySchema = createSelectSchema(diaryEntries);
+export const insertCustomFoodSchema = createInsertSchema(customFoods);
+export const selectCustomFoodSchema = createSelectSchema(customFoods);
+export const insertRecipeSchema = createInsertSchema(recipes);
+export const selectRecipeSchema = createSelectSchema(recipes);
+export const insertUserGoalsSchema = createInsertSchema(userGoals);
+export const selectUserGoalsSchema = createSelectSchema(userGoals);
+export const insertMatchCorrectionSchema = createInsertSchema(matchCorrections);
+export const selectMatchCorrectionSchema = createSelectSchema(matchCorrections);
+export const insertFdcFoodSchema = createInsertSchema(fdcFoods);
+export const selectFdcFoodSchema = createSelectSchema(fdcFoods);
 
 export type User = typeof users.$inferSelect;
-export type NewUser = typeof users.$inferInsert; 
\ No newline at end of file
+export type NewUser = typeof users.$inferInsert;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type CoachGrant = typeof coachGrants.$inferSelect;
+export type CoachAccessLog = typeof coachAccessLogs.$inferSelect;
+export type DiaryEntry = typeof diaryEntries.$inferSelect;
+export type NewDiaryEntry = typeof diaryEntries.$inferInsert;
+export type CustomFood = typeof customFoods.$inferSelect;
+export type NewCustomFood = typeof customFoods.$inferInsert;
+export type Recipe = typeof recipes.$inferSelect;
+export type NewRecipe = typeof recipes.$inferInsert;
+export type RecipeIngredientRow = typeof recipeIngredients.$inferSelect;
+export type NewRecipeIngredientRow = typeof recipeIngredients.$inferInsert;
+export type UserGoals = typeof userGoals.$inferSelect;
+export type NewUserGoals = typeof userGoals.$inferInsert;
+export type MatchCorrection = typeof matchCorrections.$inferSelect;
+export type NewMatchCorrection = typeof matchCorrections.$inferInsert;
+export type FdcFood = typeof fdcFoods.$inferSelect;
+export type NewFdcFood = typeof fdcFoods.$inferInsert;
+export type FdcFoodNutrient = typeof fdcFoodNutrients.$inferSelect;
+export type NewFdcFoodNutrient = typeof fdcFoodNutrients.$inferInsert;
+export type FdcFoodPortion = typeof fdcFoodPortions.$inferSelect;
+export type NewFdcFoodPortion = typeof fdcFoodPortions.$inferInsert;
+export type OffProduct = typeof offProducts.$inferSelect;
+export type NewOffProduct = typeof offProducts.$inferInsert;
+export type DailyMetricRow = typeof dailyMetrics.$inferSelect;
@@ -10,15 +10,61 @@ const envSchema = z.object({
   DATABASE_URL: z.string().url('DATABASE_URL must be a valid URL'),
   
   // External APIs
-  USDA_API_KEY: z.string().min(1, 'USDA_API_KEY is required'),
+  USDA_API_KEY: z.string().min(1).optional(),
   
-  // Redis Configuration (Upstash)
-  UPSTASH_REDIS_REST_URL: z.string().url('UPSTASH_REDIS_REST_URL must be a valid URL'),
-  UPSTASH_REDIS_REST_TOKEN: z.string().min(1, 'UPSTASH_REDIS_REST_TOKEN is required'),
+  // Where food data comes from: the USDA API, the imported FDC tables, or the tables with API fallback
+  FOOD_DATA_SOURCE: z.enum(['api', 'local', 'local_first']).default('api'),
+  // When "true", products imported with `off:import` are searched alongside USDA
+  OPEN_FOOD_FACTS_ENABLED: z.enum(['true', 'false']).default('false'),
+  
+  // Redis Configuration (Upstash); required by the upstash rate limit backend and the redis USDA cache
+  UPSTASH_REDIS_REST_URL: z.string().url('UPSTASH_REDIS_REST_URL must be a valid URL').optional(),
+  UPSTASH_REDIS_REST_TOKEN: z.string().min(1, 'UPSTASH_REDIS_REST_TOKEN is required').optional(),
+  // Any Redis-protocol server (redis://, rediss://), for the redis rate limit backend
+  REDIS_URL: z.string().url('REDIS_URL must be a valid URL').optional(),
+  
+  // Where rate limit counters live: "upstash" (REST client), "redis" (REDIS_URL) or "memory" (this process only)
+  RATE_LIMIT_BACKEND: z.enum(['upstash', 'redis', 'memory']).default('upstash'),
+  // Comma-separated limiters (general, strict, auth) that reject requests while their backend is down;
+  // the others let requests through
+  RATE_LIMIT_FAIL_CLOSED: z.string().default(''),
+  
+  // USDA response cache: "redis" uses the Upstash client, "memory" an in-process LRU for tests and local dev
+  USDA_CACHE_BACKEND: z.enum(['redis', 'memory']).default('redis'),
+  USDA_CACHE_SEARCH_TTL_SECONDS: z.coerce.number().int().positive().default(86400), // 1 day
+  USDA_CACHE_DETAIL_TTL_SECONDS: z.coerce.number().int().positive().default(604800), // 7 days
+  // How long an expired entry may still be served while it is refreshed in the background
+  USDA_CACHE_STALE_SECONDS: z.coerce.number().int().min(0).default(604800), // 7 days
+  USDA_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(1000), // memory backend only
+  
+  // Use other users' match corrections once this many of them picked the same food for a query; 0 turns it off
+  MATCH_CORRECTION_GLOBAL_MIN_USERS: z.coerce.number().int().min(0).default(0),
   
   // JWT Configuration
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters for security'),
-  JWT_EXPIRES_IN: z.string().default('7d'),
+  // Access token lifetime; clients renew it with their refresh token
+  JWT_EXPIRES_IN: z.string().default('15m'),
+  // Refresh tokens expire after this many days without use
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().default(30),
+  PASSWORD_RESET_TOKEN_TTL_MINUTES: z.coerce.number().int().positive().default(60),
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS: z.coerce.number().int().positive().default(48),
+  // When "true", users must verify their email address before using authenticated endpoints
+  REQUIRE_EMAIL_VERIFICATION: z.enum(['true', 'false']).default('false'),
+  
+  // Mail delivery: "smtp" sends for real, "file" writes each message as JSON into MAIL_FILE_DIR,
+  // "console" logs it; the last two are meant for local dev and tests, and are refused in production
+  // because the messages carry live reset and verification links
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).default('console'),
+  MAIL_FROM: z.string().min(1).default('Calorie Counter <no-reply@localhost>'),
+  MAIL_FILE_DIR: z.string().min(1).default('tmp/mail'),
+  SMTP_HOST: z.string().min(1).optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  // "true" for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().min(1).optional(),
+  SMTP_PASSWORD: z.string().min(1).optional(),
+  // Frontend base URL that verification and reset links in emails point to
+  APP_URL: z.string().url().default('http://localhost:3000'),
   
   // Server Configuration
   PORT: z.coerce.number().positive().default(3001),
@@ -26,6 +72,27 @@ const envSchema = z.object({
   
   // CORS Configuration
   CORS_ORIGIN: z.string().url().default('http://localhost:3000'),
+}).superRefine((values, ctx) => {
+  // The API key is only optional when every lookup is answered from the local tables
+  if (values.FOOD_DATA_SOURCE !== 'local' && !values.USDA_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['USDA_API_KEY'], message: 'USDA_API_KEY is required' });
+  }
+  const needsUpstash = values.RATE_LIMIT_BACKEND === 'upstash' || values.USDA_CACHE_BACKEND === 'redis';
+  if (needsUpstash && !values.UPSTASH_REDIS_REST_URL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['UPSTASH_REDIS_REST_URL'], message: 'UPSTASH_REDIS_REST_URL is required' });
+  }
+  if (needsUpstash && !values.UPSTASH_REDIS_REST_TOKEN) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['UPSTASH_REDIS_REST_TOKEN'], message: 'UPSTASH_REDIS_REST_TOKEN is required' });
+  }
+  if (values.RATE_LIMIT_BACKEND === 'redis' && !values.REDIS_URL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['REDIS_URL'], message: 'REDIS_URL is required when RATE_LIMIT_BACKEND is redis' });
+  }
+  if (values.NODE_ENV === 'production' && values.MAIL_TRANSPORT !== 'smtp') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['MAIL_TRANSPORT'], message: 'MAIL_TRANSPORT must be smtp in production' });
+  }
+  if (values.MAIL_TRANSPORT === 'smtp' && !values.SMTP_HOST) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['SMTP_HOST'], message: 'SMTP_HOST is required when MAIL_TRANSPORT is smtp' });
+  }
 });
 
 // Custom environment validator function
@@ -14,6 +14,7 @@ if (env.NODE_ENV !== 'production') {
     logger.info(`📍 Health check: http://localhost:${PORT}/health`);
     logger.info(`🔒 Auth endpoints: http://localhost:${PORT}/auth/*`);
     logger.info(`🍎 Calorie endpoint: http://localhost:${PORT}/get-calories`);
+    logger.info(`📓 Diary endpoints: http://localhost:${PORT}/diary/entries`);
     logger.info(`🔄 Auto-reload enabled - watching for file changes...`);
   });
 } 
\ No newline at end of file
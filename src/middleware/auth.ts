@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { db } from '../db/connection';
-import { users } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { authSessions, users, type User } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
 import { env } from '../env';
+import apiKeyService from '../services/apiKeyService';
 import logger from '../utils/logger';
+import type { ApiKeyScope, DietaryPreference, ErrorResponse, Permission, PlanTier, ShareScope, UnitSystem, UserRole } from '../types';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -12,61 +14,308 @@ export interface AuthenticatedRequest extends Request {
     first_name: string;
     last_name: string;
     email: string;
+    email_verified: boolean;
+    role: UserRole;
+    plan: PlanTier;
+    timezone: string;
+    preferred_units: UnitSystem;
+    dietary_preferences: DietaryPreference[];
+    // Unset when the request is made with an API key
+    session_id?: string;
+  };
+  // Set when the request is made with an API key rather than an access token
+  apiKey?: {
+    id: number;
+    scopes: ApiKeyScope[];
+  };
+  // Scope an API key needs for the route, set by requireScope
+  requiredScope?: ApiKeyScope;
+  // Set by allowUnverifiedEmail on routes unverified users can use even when verification is required
+  allowUnverifiedEmail?: boolean;
+  // Whose data a read is about: the user's own or a client's, set by resolveDataOwner
+  dataOwner?: {
+    id: number;
+    timezone: string;
+    // Scopes a coach's grant covers; null when the data is the caller's own
+    scopes: ShareScope[] | null;
   };
 }
 
-export const authenticateToken = async (
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (!token) {
-      return res.status(401).json({ 
-        error: 'Unauthorized', 
-        message: 'Access token is required',
-        status_code: 401 
-      });
+const unauthorized = (message: string): ErrorResponse => ({
+  error: 'Unauthorized',
+  message,
+  status_code: 401,
+});
+
+const userColumns = {
+  id: users.id,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  email: users.email,
+  emailVerifiedAt: users.emailVerifiedAt,
+  role: users.role,
+  disabledAt: users.disabledAt,
+  plan: users.plan,
+  timezone: users.timezone,
+  preferredUnits: users.preferredUnits,
+  dietaryPreferences: users.dietaryPreferences,
+};
+
+type Credentials = { type: 'token' | 'api_key'; value: string };
+
+/**
+ * Read the request's credentials: `Authorization: ApiKey <key>` or `X-API-Key` for API keys,
+ * any other Authorization scheme (normally Bearer) for access tokens
+ */
+const readCredentials = (req: Request): Credentials | null => {
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return { type: 'api_key', value: apiKeyHeader.trim() };
+  }
+
+  const [scheme, value] = (req.headers['authorization'] ?? '').split(' ');
+  if (!value) {
+    return null;
+  }
+
+  return { type: scheme?.toLowerCase() === 'apikey' ? 'api_key' : 'token', value };
+};
+
+/**
+ * Verify the request's access token or API key and set req.user. Returns the error to send when that fails.
+ */
+const resolveUser = async (req: AuthenticatedRequest): Promise<ErrorResponse | null> => {
+  const credentials = readCredentials(req);
+
+  if (!credentials) {
+    return unauthorized('Access token is required');
+  }
+
+  let user: Pick<User, keyof typeof userColumns> | undefined;
+  let sessionId: string | undefined;
+
+  if (credentials.type === 'api_key') {
+    const apiKey = await apiKeyService.use(credentials.value);
+    if (!apiKey) {
+      return unauthorized('Invalid or revoked API key');
     }
 
-    const decoded = jwt.verify(token, env.JWT_SECRET) as { userId: number };
-    
-    // Fetch user from database
-    const [user] = await db
-      .select({
-        id: users.id,
-        firstName: users.firstName,
-        lastName: users.lastName,
-        email: users.email,
-      })
+    [user] = await db.select(userColumns).from(users).where(eq(users.id, apiKey.userId)).limit(1);
+    if (!user) {
+      return unauthorized('Invalid API key - user not found');
+    }
+
+    req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+  } else {
+    let decoded: { userId: number; sid?: string };
+    try {
+      decoded = jwt.verify(credentials.value, env.JWT_SECRET) as { userId: number; sid?: string };
+    } catch (error) {
+      logger.error('Authentication error:', error);
+      return {
+        error: 'Forbidden',
+        message: 'Invalid or expired token',
+        status_code: 403
+      };
+    }
+
+    // Tokens issued before sessions existed carry no session id and can't be revoked
+    if (!decoded.sid) {
+      return unauthorized('Invalid token - please log in again');
+    }
+
+    // Fetch user from database, only while the token's session is still active
+    [user] = await db
+      .select(userColumns)
       .from(users)
-      .where(eq(users.id, decoded.userId))
+      .innerJoin(authSessions, eq(authSessions.userId, users.id))
+      .where(and(
+        eq(users.id, decoded.userId),
+        eq(authSessions.id, decoded.sid),
+        isNull(authSessions.revokedAt)
+      ))
       .limit(1);
 
     if (!user) {
-      return res.status(401).json({ 
-        error: 'Unauthorized', 
-        message: 'Invalid token - user not found',
-        status_code: 401 
-      });
+      return unauthorized('Invalid token - user not found or session revoked');
     }
 
-    req.user = {
-      id: user.id,
-      first_name: user.firstName,
-      last_name: user.lastName,
-      email: user.email,
+    sessionId = decoded.sid;
+  }
+
+  if (user.disabledAt) {
+    return {
+      error: 'Forbidden',
+      message: 'Account is disabled',
+      status_code: 403
+    };
+  }
+
+  req.user = {
+    id: user.id,
+    first_name: user.firstName,
+    last_name: user.lastName,
+    email: user.email,
+    email_verified: user.emailVerifiedAt !== null,
+    role: user.role,
+    plan: user.plan,
+    timezone: user.timezone,
+    preferred_units: user.preferredUnits,
+    dietary_preferences: user.dietaryPreferences,
+    ...(sessionId && { session_id: sessionId }),
+  };
+  return null;
+};
+
+/**
+ * With REQUIRE_EMAIL_VERIFICATION on, unverified users only reach routes marked with allowUnverifiedEmail
+ */
+const checkEmailVerified = (req: AuthenticatedRequest): ErrorResponse | null => {
+  if (env.REQUIRE_EMAIL_VERIFICATION !== 'true' || req.user!.email_verified || req.allowUnverifiedEmail) {
+    return null;
+  }
+
+  return {
+    error: 'Forbidden',
+    message: 'Email address is not verified',
+    status_code: 403
+  };
+};
+
+/**
+ * API keys only reach routes marked with requireScope, and only with that scope. Account
+ * management and anything else left unmarked needs an access token.
+ */
+const checkApiKeyScope = (req: AuthenticatedRequest): ErrorResponse | null => {
+  if (!req.apiKey) {
+    return null;
+  }
+
+  if (!req.requiredScope) {
+    return {
+      error: 'Forbidden',
+      message: 'API keys cannot be used for this endpoint',
+      status_code: 403
     };
+  }
+
+  if (!req.apiKey.scopes.includes(req.requiredScope)) {
+    return {
+      error: 'Forbidden',
+      message: `API key is missing the "${req.requiredScope}" scope`,
+      status_code: 403
+    };
+  }
+
+  return null;
+};
+
+export const authenticateToken = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // Already done by identifyUser for this request
+    const failure = (req.user ? null : await resolveUser(req)) ?? checkApiKeyScope(req) ?? checkEmailVerified(req);
+    if (failure) {
+      return res.status(failure.status_code).json(failure);
+    }
+
     return next();
   } catch (error) {
     logger.error('Authentication error:', error);
-    return res.status(403).json({ 
-      error: 'Forbidden', 
-      message: 'Invalid or expired token',
-      status_code: 403 
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to authenticate request',
+      status_code: 500
     });
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Set req.user when the request carries a valid access token or API key, without rejecting anything,
+ * so app-wide middleware such as the general rate limiter can tell users apart.
+ * Protected routes still use authenticateToken, which reuses the result.
+ */
+export const identifyUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.headers['authorization'] || req.headers['x-api-key']) {
+    try {
+      await resolveUser(req);
+    } catch (error) {
+      logger.warn('Could not identify user', { error });
+    }
+  }
+
+  return next();
+};
+
+/**
+ * Let API keys with the given scope use the routes behind it. Mount it in front of a router;
+ * authenticateToken does the check.
+ */
+export const requireScope = (scope: ApiKeyScope) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  req.requiredScope = scope;
+  return next();
+};
+
+/**
+ * Let users who haven't verified their email use the route even when REQUIRE_EMAIL_VERIFICATION is on,
+ * so they can fix a mistyped address, delete the account or log out. Put it before authenticateToken.
+ */
+export const allowUnverifiedEmail = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  req.allowUnverifiedEmail = true;
+  return next();
+};
+
+// What each role may do beyond using its own data
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  nutritionist: ['corrections:review'],
+  admin: ['users:read', 'users:manage', 'rate_limits:reset', 'stats:read', 'corrections:review'],
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Only let through users whose role has every given permission. Use after authenticateToken.
+ */
+export const requirePermission = (...permissions: Permission[]) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user) {
+    return res.status(401).json(unauthorized('Access token is required'));
+  }
+
+  const missing = permissions.filter((permission) => !hasPermission(req.user!.role, permission));
+  if (missing.length > 0) {
+    logger.warn('Permission denied', {
+      userId: req.user.id,
+      role: req.user.role,
+      missing,
+      path: req.originalUrl,
+    });
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: `Missing permission: ${missing.join(', ')}`,
+      status_code: 403,
+    });
+  }
+
+  return next();
+};
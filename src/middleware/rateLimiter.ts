@@ -1,43 +1,114 @@
-import { Redis } from '@upstash/redis';
-import { Ratelimit } from '@upstash/ratelimit';
 import { Request, Response, NextFunction } from 'express';
 import { env } from '../env.js';
+import { createRateLimitStore, type RateLimitRule } from '../services/rateLimitStore.js';
+import {
+  BATCH_ITEMS_PER_RATE_LIMIT_HIT,
+  MAX_BATCH_ITEMS,
+  MAX_MEAL_ITEMS,
+  MAX_MEAL_TEXT_LENGTH,
+  MAX_RECIPE_INGREDIENTS,
+  PLAN_TIERS,
+  type PlanTier,
+} from '../types/index.js';
+import { parseMealText } from '../utils/mealParser.js';
 import logger from '../utils/logger.js';
+import { hashToken } from '../utils/tokens.js';
+import type { AuthenticatedRequest } from './auth.js';
 
-// Initialize Upstash Redis client
-const redis = new Redis({
-  url: env.UPSTASH_REDIS_REST_URL,
-  token: env.UPSTASH_REDIS_REST_TOKEN,
-});
+export const RATE_LIMIT_CATEGORIES = ['general', 'strict'] as const;
+export type RateLimitCategory = (typeof RATE_LIMIT_CATEGORIES)[number];
+export type LimiterName = RateLimitCategory | 'auth' | 'refresh';
 
-// Upstash native rate limiters (recommended for serverless)
-export const upstashGeneralLimiter = new Ratelimit({
-  redis: redis,
-  limiter: Ratelimit.slidingWindow(100, '5 m'), // 100 requests per 5 minutes
-  analytics: true,
-  prefix: 'rl:general',
-});
+// Requests allowed per window for each plan. Requests without a signed-in user get the free tier per IP.
+export const RATE_LIMIT_TIERS: Record<PlanTier, Record<RateLimitCategory, RateLimitRule>> = {
+  free: {
+    general: { requests: 100, window: '5 m' },
+    strict: { requests: 15, window: '5 m' },
+  },
+  pro: {
+    general: { requests: 1000, window: '5 m' },
+    strict: { requests: 150, window: '5 m' },
+  },
+  internal: {
+    general: { requests: 10000, window: '5 m' },
+    strict: { requests: 2000, window: '5 m' },
+  },
+};
 
-export const upstashStrictLimiter = new Ratelimit({
-  redis: redis,
-  limiter: Ratelimit.slidingWindow(15, '5 m'), // 15 requests per 5 minutes
-  analytics: true,
-  prefix: 'rl:strict',
-});
+// Login and registration come before there is a user, so they are always limited per IP
+const AUTH_RULE: RateLimitRule = { requests: 5, window: '5 m' }; // 5 requests per 5 minutes
+
+// Every signed-in client refreshes its access token every 15 minutes, so refreshes are limited
+// per refresh token: users behind one NAT don't use up each other's allowance
+const REFRESH_RULE: RateLimitRule = { requests: 10, window: '5 m' };
 
-export const upstashAuthLimiter = new Ratelimit({
-  redis: redis,
-  limiter: Ratelimit.slidingWindow(5, '5 m'), // 5 requests per 5 minutes
-  analytics: true,
-  prefix: 'rl:auth',
+// Counters live in the backend chosen by RATE_LIMIT_BACKEND
+const store = createRateLimitStore();
+
+// Limiters listed in RATE_LIMIT_FAIL_CLOSED reject requests while the store is unreachable
+const failClosedLimiters = new Set(
+  String(env.RATE_LIMIT_FAIL_CLOSED ?? '').split(',').map((name) => name.trim()).filter(Boolean)
+);
+
+export interface RateLimitSubject {
+  // "user:<id>" for signed-in users and their API keys, "ip:<address>" otherwise
+  identifier: string;
+  tier: PlanTier;
+}
+
+/**
+ * Who a request counts against: the signed-in user when there is one, else the client IP.
+ * API keys share their owner's quota, so creating more keys doesn't buy more requests.
+ */
+export const rateLimitSubject = (req: AuthenticatedRequest): RateLimitSubject => {
+  if (req.user) {
+    return { identifier: `user:${req.user.id}`, tier: req.user.plan };
+  }
+
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+  return { identifier: `ip:${ip}`, tier: 'free' };
+};
+
+// Which counter a request uses: the prefix names the limiter (and tier), the identifier its subject
+type LimiterSelector = (req: AuthenticatedRequest) => { prefix: string; identifier: string; rule: RateLimitRule };
+
+const tiered = (category: RateLimitCategory): LimiterSelector => (req) => {
+  const { identifier, tier } = rateLimitSubject(req);
+  return { prefix: `rl:${category}:${tier}`, identifier, rule: RATE_LIMIT_TIERS[tier][category] };
+};
+
+const perIp = (name: LimiterName, rule: RateLimitRule): LimiterSelector => (req) => ({
+  prefix: `rl:${name}`,
+  identifier: `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`,
+  rule,
 });
 
-// Express middleware wrappers for Upstash rate limiters
-export const createUpstashMiddleware = (limiter: Ratelimit) => {
-  return async (req: Request, res: Response, next: NextFunction) => {
+const perRefreshToken = (rule: RateLimitRule): LimiterSelector => (req) => {
+  const token: unknown = req.body?.refresh_token;
+  return {
+    prefix: 'rl:refresh',
+    // Hashed so tokens aren't stored in the clear; requests without one count per IP
+    identifier: typeof token === 'string' && token
+      ? `token:${hashToken(token)}`
+      : `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`,
+    rule,
+  };
+};
+
+// Express middleware wrappers for the rate limit store.
+// `cost` weighs a request as several hits, e.g. by the number of items in a batch.
+export const createRateLimitMiddleware = (
+  name: LimiterName,
+  select: LimiterSelector,
+  cost: (req: Request) => number = () => 1
+) => {
+  const failClosed = failClosedLimiters.has(name);
+
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const ip = req.ip || req.socket.remoteAddress || 'unknown';
-      const { success, limit, remaining, reset } = await limiter.limit(ip);
+      const { prefix, identifier, rule } = select(req);
+      const rate = Math.max(1, Math.ceil(cost(req)));
+      const { success, limit, remaining, reset } = await store.limit(prefix, identifier, rule, rate);
 
       // Set rate limit headers
       res.set({
@@ -47,35 +118,120 @@ export const createUpstashMiddleware = (limiter: Ratelimit) => {
       });
 
       if (!success) {
-        logger.warn(`Rate limit exceeded for IP: ${ip}`, {
-          ip,
+        const retryAfter = Math.max(1, Math.ceil((reset - Date.now()) / 1000));
+
+        logger.warn(`Rate limit exceeded for ${identifier}`, {
+          limiter: name,
+          identifier,
+          ip: req.ip,
+          rate,
           limit,
           remaining,
           reset: new Date(reset).toISOString()
         });
-        
+
+        res.set('Retry-After', retryAfter.toString());
         return res.status(429).json({
           error: 'Too Many Requests',
-          message: 'Too many requests from this IP, please try again later.',
+          message: 'Too many requests, please try again later.',
           status_code: 429,
-          retryAfter: Math.round((reset - Date.now()) / 1000),
+          retryAfter,
         });
       }
 
       return next();
     } catch (error) {
-      logger.error('Rate limiter error:', error);
+      logger.error('Rate limiter error:', { limiter: name, failClosed, error });
+
+      if (failClosed) {
+        res.set('Retry-After', '30');
+        return res.status(503).json({
+          error: 'Service Unavailable',
+          message: 'Rate limiting is temporarily unavailable, please try again later.',
+          status_code: 503,
+        });
+      }
+
       // Fail open - allow request if rate limiter fails
       return next();
     }
   };
 };
 
-// Upstash middleware instances
-export const generalLimiterMiddleware = createUpstashMiddleware(upstashGeneralLimiter);
-export const strictLimiterMiddleware = createUpstashMiddleware(upstashStrictLimiter);
-export const authLimiterMiddleware = createUpstashMiddleware(upstashAuthLimiter);
+// Middleware instances. The tiered ones key on req.user, so put them after
+// authenticateToken (or app-wide identifyUser) to count requests per user rather than per IP.
+export const generalLimiterMiddleware = createRateLimitMiddleware('general', tiered('general'));
+export const strictLimiterMiddleware = createRateLimitMiddleware('strict', tiered('strict'));
+export const authLimiterMiddleware = createRateLimitMiddleware('auth', perIp('auth', AUTH_RULE));
+export const refreshLimiterMiddleware = createRateLimitMiddleware('refresh', perRefreshToken(REFRESH_RULE));
+
+/**
+ * Cost of a request that looks up several foods: one strict hit per BATCH_ITEMS_PER_RATE_LIMIT_HIT
+ * lookups, so 50 dishes cost 5 requests rather than 50. Requests over `max` are rejected by
+ * validation, so they cost no more than the largest valid one.
+ */
+const lookupCost = (countLookups: (req: Request) => number | null, max: number) => (req: Request) => {
+  const lookups = countLookups(req);
+  return lookups === null ? 1 : Math.min(lookups, max) / BATCH_ITEMS_PER_RATE_LIMIT_HIT;
+};
+
+const arrayLength = (value: unknown) => (Array.isArray(value) ? value.length : null);
+
+export const batchLimiterMiddleware = createRateLimitMiddleware('strict', tiered('strict'),
+  lookupCost((req) => arrayLength(req.body?.items), MAX_BATCH_ITEMS));
+export const recipeLimiterMiddleware = createRateLimitMiddleware('strict', tiered('strict'),
+  lookupCost((req) => arrayLength(req.body?.ingredients), MAX_RECIPE_INGREDIENTS));
+// Meals are charged for the items their text parses into. Text the route would reject is charged
+// the maximum without parsing, so oversized bodies can't tie up the parser.
+const mealItemCount = (text: unknown) =>
+  (typeof text === 'string' && text.length <= MAX_MEAL_TEXT_LENGTH ? parseMealText(text).length : MAX_MEAL_ITEMS);
+
+export const mealLimiterMiddleware = createRateLimitMiddleware('strict', tiered('strict'),
+  lookupCost((req) => mealItemCount(req.body?.text), MAX_MEAL_ITEMS));
+
+/**
+ * Give a subject ("user:<id>" or "ip:<address>") a full quota again in every limiter and plan
+ */
+export const resetRateLimits = async (identifier: string): Promise<void> => {
+  const resets = PLAN_TIERS.flatMap((tier) => RATE_LIMIT_CATEGORIES.map((category) =>
+    store.reset(`rl:${category}:${tier}`, identifier, RATE_LIMIT_TIERS[tier][category])
+  ));
+
+  if (identifier.startsWith('ip:')) {
+    resets.push(store.reset('rl:auth', identifier, AUTH_RULE));
+  }
+
+  await Promise.all(resets);
+};
+
+export interface RateLimitUsage {
+  limit: number;
+  remaining: number;
+  window: string;
+  reset_at: string;
+}
+
+/**
+ * Remaining quota of the request's subject in every tiered limiter, without using any of it
+ */
+export const getRateLimitUsage = async (req: AuthenticatedRequest) => {
+  const { identifier, tier } = rateLimitSubject(req);
 
+  const entries = await Promise.all(RATE_LIMIT_CATEGORIES.map(async (category) => {
+    const rule = RATE_LIMIT_TIERS[tier][category];
+    const { remaining, reset, limit } = await store.peek(`rl:${category}:${tier}`, identifier, rule);
+    const usage: RateLimitUsage = {
+      limit,
+      remaining,
+      window: rule.window,
+      reset_at: new Date(reset).toISOString(),
+    };
+    return [category, usage] as const;
+  }));
 
-// Export Redis client for other uses
-export { redis }; 
\ No newline at end of file
+  return {
+    plan: tier,
+    identifier,
+    limits: Object.fromEntries(entries) as Record<RateLimitCategory, RateLimitUsage>,
+  };
+};
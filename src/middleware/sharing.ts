@@ -0,0 +1,63 @@
+import { Response, NextFunction } from 'express';
+import sharingService from '../services/sharingService';
+import { dataOwnerQuerySchema, type ShareScope } from '../types';
+import logger from '../utils/logger';
+import { formatValidationErrors } from '../utils/validation';
+import type { AuthenticatedRequest } from './auth';
+
+/**
+ * Decide whose data a read is about and set req.dataOwner: the caller's own, or a client's when
+ * `user_id` names a client who shares this scope with the caller. Every read of a client's data
+ * is written to their access log. Use after authenticateToken, on read-only routes.
+ */
+export const resolveDataOwner = (scope: ShareScope) => async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationResult = dataOwnerQuerySchema.safeParse(req.query);
+
+  if (!validationResult.success) {
+    const errorResponse = formatValidationErrors(validationResult.error);
+    return res.status(errorResponse.status_code).json(errorResponse);
+  }
+
+  const clientId = validationResult.data.user_id;
+
+  if (clientId === undefined || clientId === req.user!.id) {
+    req.dataOwner = { id: req.user!.id, timezone: req.user!.timezone, scopes: null };
+    return next();
+  }
+
+  try {
+    const active = await sharingService.findActiveGrant(req.user!.id, clientId, scope);
+
+    if (!active) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `You don't have access to this user's ${scope}`,
+        status_code: 403,
+      });
+    }
+
+    // Recorded before the data is read, so nothing is served that the client can't see in the log
+    await sharingService.recordAccess(active.grant, scope, req.method, req.originalUrl);
+
+    logger.info('Coach read client data', {
+      coachId: req.user!.id,
+      clientId,
+      grantId: active.grant.id,
+      scope,
+    });
+
+    req.dataOwner = { id: clientId, timezone: active.clientTimezone, scopes: active.grant.scopes };
+    return next();
+  } catch (error) {
+    logger.error('Shared data access error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to check access to shared data',
+      status_code: 500,
+    });
+  }
+};
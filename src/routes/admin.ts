@@ -0,0 +1,285 @@
+import { Router, Response, type IRouter } from "express";
+import {
+  adminListUsersSchema,
+  adminUpdateUserSchema,
+  disableUserSchema,
+  resetRateLimitsSchema,
+  adminStatsSchema,
+} from "../types";
+import { authenticateToken, requirePermission, AuthenticatedRequest } from "../middleware/auth";
+import { resetRateLimits } from "../middleware/rateLimiter";
+import adminService from "../services/adminService";
+import userService from "../services/userService";
+import logger from "../utils/logger";
+import { formatValidationErrors, parseIdParam } from "../utils/validation";
+
+const router: IRouter = Router();
+
+const userNotFound = {
+  error: "Not Found",
+  message: "User not found",
+  status_code: 404,
+};
+
+// Refusals that would lock an admin out, e.g. disabling or demoting themselves
+const isSelfChange = (error: unknown) =>
+  error instanceof Error && error.message.includes("You cannot");
+
+router.get(
+  "/users",
+  authenticateToken,
+  requirePermission("users:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = adminListUsersSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { limit, offset } = validationResult.data;
+      const { users, total } = await adminService.listUsers(validationResult.data);
+
+      return res.status(200).json({
+        users: users.map((user) => adminService.formatUser(user)),
+        total,
+        limit,
+        offset,
+      });
+    } catch (error) {
+      logger.error("Admin user listing error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch users",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/users/:id",
+  authenticateToken,
+  requirePermission("users:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = parseIdParam(req.params["id"]);
+      const user = userId ? await userService.getById(userId) : null;
+
+      if (!user) {
+        return res.status(404).json(userNotFound);
+      }
+
+      return res.status(200).json(adminService.formatUser(user));
+    } catch (error) {
+      logger.error("Admin user fetch error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch user",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.patch(
+  "/users/:id",
+  authenticateToken,
+  requirePermission("users:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = parseIdParam(req.params["id"]);
+      if (!userId) {
+        return res.status(404).json(userNotFound);
+      }
+
+      const validationResult = adminUpdateUserSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const user = await adminService.updateUser(req.user!.id, userId, validationResult.data);
+
+      if (!user) {
+        return res.status(404).json(userNotFound);
+      }
+
+      logger.info(`User updated by admin`, {
+        adminId: req.user!.id,
+        userId,
+        ...validationResult.data,
+      });
+
+      return res.status(200).json(adminService.formatUser(user));
+    } catch (error) {
+      if (isSelfChange(error)) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: (error as Error).message,
+          status_code: 409,
+        });
+      }
+
+      logger.error("Admin user update error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to update user",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// Logs the user out everywhere; they can't log in, refresh or use API keys until enabled again
+router.post(
+  "/users/:id/disable",
+  authenticateToken,
+  requirePermission("users:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = parseIdParam(req.params["id"]);
+      if (!userId) {
+        return res.status(404).json(userNotFound);
+      }
+
+      const validationResult = disableUserSchema.safeParse(req.body ?? {});
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const result = await adminService.disableUser(req.user!.id, userId, validationResult.data.reason);
+
+      if (!result) {
+        return res.status(404).json(userNotFound);
+      }
+
+      logger.warn(`User disabled by admin`, {
+        adminId: req.user!.id,
+        userId,
+        reason: validationResult.data.reason,
+        sessionsRevoked: result.sessionsRevoked,
+      });
+
+      return res.status(200).json({
+        ...adminService.formatUser(result.user),
+        sessions_revoked: result.sessionsRevoked,
+      });
+    } catch (error) {
+      if (isSelfChange(error)) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: (error as Error).message,
+          status_code: 409,
+        });
+      }
+
+      logger.error("Admin user disable error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to disable user",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.post(
+  "/users/:id/enable",
+  authenticateToken,
+  requirePermission("users:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = parseIdParam(req.params["id"]);
+      const user = userId ? await adminService.enableUser(userId) : null;
+
+      if (!user) {
+        return res.status(404).json(userNotFound);
+      }
+
+      logger.info(`User enabled by admin`, {
+        adminId: req.user!.id,
+        userId,
+      });
+
+      return res.status(200).json(adminService.formatUser(user));
+    } catch (error) {
+      logger.error("Admin user enable error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to enable user",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// Gives one user, API key or IP address a full quota again in every rate limiter
+router.post(
+  "/rate-limits/reset",
+  authenticateToken,
+  requirePermission("rate_limits:reset"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = resetRateLimitsSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { user_id, ip } = validationResult.data;
+      const identifier = user_id !== undefined ? `user:${user_id}` : `ip:${ip}`;
+
+      await resetRateLimits(identifier);
+
+      logger.info(`Rate limits reset by admin`, {
+        adminId: req.user!.id,
+        identifier,
+      });
+
+      return res.status(200).json({
+        message: "Rate limits have been reset",
+        identifier,
+      });
+    } catch (error) {
+      logger.error("Rate limit reset error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to reset rate limits",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/stats",
+  authenticateToken,
+  requirePermission("stats:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = adminStatsSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      return res.status(200).json(await adminService.getStats(validationResult.data.days));
+    } catch (error) {
+      logger.error("Admin stats error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch stats",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
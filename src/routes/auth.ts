@@ -1,12 +1,20 @@
 import { Router, Request, Response, type IRouter } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { db } from '../db/connection';
 import { users } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import { registerSchema, loginSchema } from '../types';
-import { authLimiterMiddleware } from '../middleware/rateLimiter';
-import { env } from '../env';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  accountEmailSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+} from '../types';
+import { authLimiterMiddleware, refreshLimiterMiddleware } from '../middleware/rateLimiter';
+import { allowUnverifiedEmail, authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import sessionService from '../services/sessionService';
+import accountService from '../services/accountService';
 import logger from '../utils/logger';
 import { formatValidationErrors } from '../utils/validation';
 
@@ -55,29 +63,27 @@ router.post('/register', authLimiterMiddleware, async (req: Request, res: Respon
         email: users.email,
       });
 
-    const token = jwt.sign(
-      { 
-        userId: newUser!.id,
-        first_name: newUser!.firstName,
-        last_name: newUser!.lastName,
-        email: newUser!.email,
-      },
-      env.JWT_SECRET,
-      { expiresIn: env.JWT_EXPIRES_IN } as jwt.SignOptions
-    );
+    const tokens = await sessionService.createSession(newUser!);
 
     logger.info(`User registered successfully: ${newUser!.email}`, {
       userId: newUser!.id,
       email: newUser!.email
     });
 
+    // Sent off the request path, so slow SMTP doesn't hold up registration and a mail outage
+    // doesn't fail it; the user can ask for the link again
+    accountService.sendVerificationEmail(newUser!).catch((error) => {
+      logger.warn('Failed to send verification email', { userId: newUser!.id, error });
+    });
+
     return res.status(201).json({
       user: {
         first_name: newUser!.firstName,
         last_name: newUser!.lastName,
         email: newUser!.email,
+        email_verified: false,
       },
-      token,
+      ...tokens,
     });
   } catch (error) {
     logger.error('Registration error:', error);
@@ -124,16 +130,19 @@ router.post('/login', authLimiterMiddleware, async (req: Request, res: Response)
       });
     }
 
-    const token = jwt.sign(
-      { 
+    // Checked after the password, so the response doesn't reveal that a disabled account exists
+    if (user.disabledAt) {
+      logger.warn(`Login attempt on disabled account: ${user.email}`, {
         userId: user.id,
-        first_name: user.firstName,
-        last_name: user.lastName,
-        email: user.email,
-      },
-      env.JWT_SECRET,
-      { expiresIn: env.JWT_EXPIRES_IN } as jwt.SignOptions
-    );
+      });
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Account is disabled',
+        status_code: 403,
+      });
+    }
+
+    const tokens = await sessionService.createSession(user);
 
     logger.info(`User logged in successfully: ${user.email}`, {
       userId: user.id,
@@ -145,8 +154,9 @@ router.post('/login', authLimiterMiddleware, async (req: Request, res: Response)
         first_name: user.firstName,
         last_name: user.lastName,
         email: user.email,
+        email_verified: user.emailVerifiedAt !== null,
       },
-      token,
+      ...tokens,
     });
     } catch (error) {
     logger.error('Login error:', error);
@@ -158,4 +168,207 @@ router.post('/login', authLimiterMiddleware, async (req: Request, res: Response)
   }
 });
 
+router.post('/refresh', refreshLimiterMiddleware, async (req: Request, res: Response) => {
+  try {
+    const validationResult = refreshTokenSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorResponse = formatValidationErrors(validationResult.error);
+      return res.status(errorResponse.status_code).json(errorResponse);
+    }
+
+    const { userId, ...tokens } = await sessionService.refresh(validationResult.data.refresh_token);
+
+    logger.info('Access token refreshed', { userId });
+
+    return res.status(200).json(tokens);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message.includes('Invalid refresh token') ||
+      error.message.includes('expired') ||
+      error.message.includes('revoked')
+    )) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: error.message,
+        status_code: 401,
+      });
+    }
+
+    logger.error('Token refresh error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to refresh token',
+      status_code: 500,
+    });
+  }
+});
+
+// Ends the session the refresh token belongs to; unknown tokens are ignored so logout can be retried safely
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const validationResult = refreshTokenSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorResponse = formatValidationErrors(validationResult.error);
+      return res.status(errorResponse.status_code).json(errorResponse);
+    }
+
+    const revoked = await sessionService.revokeByRefreshToken(validationResult.data.refresh_token);
+
+    if (revoked) {
+      logger.info('User logged out');
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    logger.error('Logout error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to logout',
+      status_code: 500,
+    });
+  }
+});
+
+router.post('/logout-all', allowUnverifiedEmail, authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessionsRevoked = await sessionService.revokeAllSessions(req.user!.id, 'logout_all');
+
+    logger.info(`User logged out of all sessions: ${req.user!.email}`, {
+      userId: req.user!.id,
+      sessionsRevoked,
+    });
+
+    return res.status(200).json({ sessions_revoked: sessionsRevoked });
+  } catch (error) {
+    logger.error('Logout all error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to logout of all sessions',
+      status_code: 500,
+    });
+  }
+});
+
+// Always answers 202 so the response doesn't reveal whether an account exists for the email. The link is
+// sent after responding, so neither the status nor the response time depends on it.
+router.post('/forgot-password', authLimiterMiddleware, async (req: Request, res: Response) => {
+  try {
+    const validationResult = accountEmailSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorResponse = formatValidationErrors(validationResult.error);
+      return res.status(errorResponse.status_code).json(errorResponse);
+    }
+
+    accountService.requestPasswordReset(validationResult.data.email).catch((error) => {
+      logger.error('Failed to send password reset email', { error });
+    });
+
+    return res.status(202).json({
+      message: 'If an account exists for this email, a password reset link has been sent',
+    });
+  } catch (error) {
+    logger.error('Forgot password error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to send password reset email',
+      status_code: 500,
+    });
+  }
+});
+
+router.post('/reset-password', authLimiterMiddleware, async (req: Request, res: Response) => {
+  try {
+    const validationResult = resetPasswordSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorResponse = formatValidationErrors(validationResult.error);
+      return res.status(errorResponse.status_code).json(errorResponse);
+    }
+
+    const { token, password } = validationResult.data;
+    await accountService.resetPassword(token, password);
+
+    return res.status(200).json({
+      message: 'Password has been reset; please log in again',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Invalid or expired')) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+        status_code: 400,
+      });
+    }
+
+    logger.error('Reset password error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to reset password',
+      status_code: 500,
+    });
+  }
+});
+
+router.post('/verify-email', authLimiterMiddleware, async (req: Request, res: Response) => {
+  try {
+    const validationResult = verifyEmailSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorResponse = formatValidationErrors(validationResult.error);
+      return res.status(errorResponse.status_code).json(errorResponse);
+    }
+
+    await accountService.verifyEmail(validationResult.data.token);
+
+    return res.status(200).json({
+      message: 'Email address verified',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Invalid or expired')) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+        status_code: 400,
+      });
+    }
+
+    logger.error('Email verification error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to verify email address',
+      status_code: 500,
+    });
+  }
+});
+
+// Like forgot-password, answers 202 whether or not the email belongs to an unverified account
+router.post('/resend-verification', authLimiterMiddleware, async (req: Request, res: Response) => {
+  try {
+    const validationResult = accountEmailSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorResponse = formatValidationErrors(validationResult.error);
+      return res.status(errorResponse.status_code).json(errorResponse);
+    }
+
+    accountService.resendVerificationEmail(validationResult.data.email).catch((error) => {
+      logger.error('Failed to resend verification email', { error });
+    });
+
+    return res.status(202).json({
+      message: 'If an unverified account exists for this email, a verification link has been sent',
+    });
+  } catch (error) {
+    logger.error('Resend verification error:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to send verification email',
+      status_code: 500,
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -1,78 +1,309 @@
 import { Router, Response, type IRouter } from "express";
-import { getCaloriesSchema } from "../types";
-import { strictLimiterMiddleware } from "../middleware/rateLimiter";
+import {
+  getCaloriesSchema,
+  calculateRecipeSchema,
+  parseMealSchema,
+  MAX_MEAL_ITEMS,
+  includeQuerySchema,
+  batchCaloriesSchema,
+  BatchCalorieItemResult,
+  BatchCalorieResponse,
+  CalorieResponse,
+  ErrorResponse,
+} from "../types";
+import {
+  batchLimiterMiddleware,
+  mealLimiterMiddleware,
+  recipeLimiterMiddleware,
+  strictLimiterMiddleware,
+} from "../middleware/rateLimiter";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
-import usdaService from "../services/usdaService";
+import lookupService from "../services/lookupService";
+import mealService from "../services/mealService";
+import goalsService from "../services/goalsService";
+import summaryService from "../services/summaryService";
 import logger from "../utils/logger";
 import { formatValidationErrors } from "../utils/validation";
+import { sumMacronutrients } from "../utils/nutrition";
+import { parseMealText } from "../utils/mealParser";
 
 const router: IRouter = Router();
 
+/**
+ * Map USDA service errors to HTTP error bodies
+ */
+function calculationErrorBody(error: unknown, fallbackMessage: string): ErrorResponse {
+  if (error instanceof Error) {
+    if (
+      error.message.includes("No foods found") ||
+      error.message.includes("No suitable match found")
+    ) {
+      return {
+        error: "Not Found",
+        message: `Dish not found: ${error.message}`,
+        status_code: 404,
+      };
+    }
+
+    if (error.message.includes("No calorie information available")) {
+      return {
+        error: "Unprocessable Entity",
+        message: error.message,
+        status_code: 422,
+      };
+    }
+  }
+
+  return {
+    error: "Internal Server Error",
+    message: fallbackMessage,
+    status_code: 500,
+  };
+}
+
+function sendCalculationError(res: Response, error: unknown, fallbackMessage: string) {
+  const body = calculationErrorBody(error, fallbackMessage);
+  return res.status(body.status_code).json(body);
+}
+
 router.post(
   "/get-calories",
-  strictLimiterMiddleware,
   authenticateToken,
+  strictLimiterMiddleware,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const validationResult = getCaloriesSchema.safeParse(req.body);
+      const includeResult = includeQuerySchema.safeParse(req.query);
 
       if (!validationResult.success) {
         const errorResponse = formatValidationErrors(validationResult.error);
         return res.status(errorResponse.status_code).json(errorResponse);
       }
 
-      const { dish_name, servings } = validationResult.data;
-
-      if (servings <= 0) {
-        return res.status(400).json({
-          error: "Bad Request",
-          message: "Servings must be a positive number",
-          status_code: 400,
-        });
+      if (!includeResult.success) {
+        const errorResponse = formatValidationErrors(includeResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
       }
 
-      const calorieData = await usdaService.calculateCalories(
-        dish_name,
-        servings
-      );
+      const { dish_name, fdc_id, timezone, strict } = validationResult.data;
+      const options = { includeMicronutrients: includeResult.data.include.includes("micronutrients"), strict };
+
+      let calorieData: CalorieResponse;
+      if (fdc_id !== undefined) {
+        // Exact USDA food: only the amount needs resolving
+        const amount = lookupService.resolveExplicitAmount(validationResult.data) ??
+          { quantity: 1, unit: "serving" as const };
+        calorieData = await lookupService.calculateCaloriesById(fdc_id, amount, options);
+      } else {
+        const amount = lookupService.resolveAmount({ ...validationResult.data, dish_name: dish_name! });
+        calorieData = await lookupService.calculateCalories(req.user!.id, amount, options);
+      }
 
       logger.info(`Calorie calculation successful`, {
         userId: req.user?.id,
-        dishName: dish_name,
-        servings,
+        dishName: calorieData.dish_name,
+        fdcId: calorieData.matched_food?.fdc_id,
+        servings: calorieData.servings,
         totalCalories: calorieData.total_calories,
+        matchRule: calorieData.match?.rule,
+        confidence: calorieData.match?.confidence,
+        cache: calorieData.cache?.status,
       });
 
+      // Progress is best effort: a goals lookup failure shouldn't fail the calculation
+      try {
+        const goals = await goalsService.getGoals(req.user!.id);
+        if (goals && calorieData.total_macronutrients) {
+          const today = await summaryService.getDailySummary(req.user!.id, undefined, timezone ?? req.user!.timezone);
+          calorieData.goal_progress = goalsService.calculateProgress(
+            goals,
+            today.total_calories + calorieData.total_calories,
+            sumMacronutrients([today.total_macronutrients, calorieData.total_macronutrients])
+          );
+        }
+      } catch (error) {
+        logger.warn("Unable to calculate goal progress:", error);
+      }
+
       return res.status(200).json(calorieData);
     } catch (error) {
       logger.error("Calorie calculation error:", error);
+      return sendCalculationError(res, error, "Failed to calculate calories");
+    }
+  }
+);
 
-      if (error instanceof Error) {
-        if (
-          error.message.includes("No foods found") ||
-          error.message.includes("No suitable match found")
-        ) {
-          return res.status(404).json({
-            error: "Not Found",
-            message: `Dish not found: ${error.message}`,
-            status_code: 404,
-          });
-        }
+router.post(
+  "/get-calories/batch",
+  authenticateToken,
+  batchLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = batchCaloriesSchema.safeParse(req.body);
+      const includeResult = includeQuerySchema.safeParse(req.query);
 
-        if (error.message.includes("No calorie information available")) {
-          return res.status(422).json({
-            error: "Unprocessable Entity",
-            message: error.message,
-            status_code: 422,
-          });
-        }
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
       }
 
-      return res.status(500).json({
-        error: "Internal Server Error",
-        message: "Failed to calculate calories",
-        status_code: 500,
+      if (!includeResult.success) {
+        const errorResponse = formatValidationErrors(includeResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { items, strict } = validationResult.data;
+      const options = { includeMicronutrients: includeResult.data.include.includes("micronutrients"), strict };
+
+      const settled = await lookupService.calculateBatch(
+        req.user!.id,
+        items.map((item) => lookupService.resolveAmount(item)),
+        options
+      );
+
+      // Each item succeeds or fails on its own; the batch itself only fails on invalid input
+      const results = settled.map((outcome, index): BatchCalorieItemResult => {
+        const dishName = items[index]!.dish_name;
+        return outcome.status === "fulfilled"
+          ? { index, dish_name: dishName, status: "ok", result: outcome.value }
+          : { index, dish_name: dishName, status: "error", error: calculationErrorBody(outcome.reason, "Failed to calculate calories") };
+      });
+
+      const response: BatchCalorieResponse = {
+        results,
+        succeeded: results.filter((result) => result.status === "ok").length,
+        failed: results.filter((result) => result.status === "error").length,
+      };
+
+      logger.info(`Batch calorie calculation completed`, {
+        userId: req.user?.id,
+        itemCount: items.length,
+        succeeded: response.succeeded,
+        failed: response.failed,
       });
+
+      return res.status(200).json(response);
+    } catch (error) {
+      logger.error("Batch calorie calculation error:", error);
+      return sendCalculationError(res, error, "Failed to calculate calories");
+    }
+  }
+);
+
+router.post(
+  "/calculate-recipe",
+  authenticateToken,
+  recipeLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = calculateRecipeSchema.safeParse(req.body);
+      const includeResult = includeQuerySchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      if (!includeResult.success) {
+        const errorResponse = formatValidationErrors(includeResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { recipe_name, ingredients, servings, strict } = validationResult.data;
+
+      const recipeData = await lookupService.calculateRecipe(
+        req.user!.id,
+        recipe_name,
+        ingredients,
+        servings,
+        { includeMicronutrients: includeResult.data.include.includes("micronutrients"), strict }
+      );
+
+      logger.info(`Recipe calculation successful`, {
+        userId: req.user?.id,
+        recipeName: recipe_name,
+        ingredientCount: ingredients.length,
+        servings,
+        totalCalories: recipeData.total_calories,
+      });
+
+      return res.status(200).json(recipeData);
+    } catch (error) {
+      logger.error("Recipe calculation error:", error);
+      return sendCalculationError(res, error, "Failed to calculate recipe nutrition");
+    }
+  }
+);
+
+router.post(
+  "/parse-meal",
+  authenticateToken,
+  mealLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = parseMealSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { text, timezone } = validationResult.data;
+      const items = parseMealText(text);
+
+      if (items.length === 0) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: "No foods found in the meal text",
+          status_code: 400,
+        });
+      }
+
+      if (items.length > MAX_MEAL_ITEMS) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `A meal can have at most ${MAX_MEAL_ITEMS} items`,
+          status_code: 400,
+        });
+      }
+
+      const mealData = await mealService.calculateMeal(req.user!.id, text, items);
+
+      if (mealData.unmatched_items.length === items.length) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "None of the foods in the meal could be matched",
+          status_code: 404,
+          unmatched_items: mealData.unmatched_items,
+        });
+      }
+
+      logger.info(`Meal parsing successful`, {
+        userId: req.user?.id,
+        itemCount: items.length,
+        unmatchedCount: mealData.unmatched_items.length,
+        totalCalories: mealData.total_calories,
+      });
+
+      // Progress is best effort: a goals lookup failure shouldn't fail the calculation
+      try {
+        const goals = await goalsService.getGoals(req.user!.id);
+        if (goals && mealData.total_macronutrients) {
+          const today = await summaryService.getDailySummary(req.user!.id, undefined, timezone ?? req.user!.timezone);
+          mealData.goal_progress = goalsService.calculateProgress(
+            goals,
+            today.total_calories + mealData.total_calories,
+            sumMacronutrients([today.total_macronutrients, mealData.total_macronutrients])
+          );
+        }
+      } catch (error) {
+        logger.warn("Unable to calculate goal progress:", error);
+      }
+
+      return res.status(200).json(mealData);
+    } catch (error) {
+      logger.error("Meal parsing error:", error);
+      return sendCalculationError(res, error, "Failed to calculate meal nutrition");
     }
   }
 );
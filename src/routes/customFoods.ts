@@ -0,0 +1,195 @@
+import { Router, Response, type IRouter } from "express";
+import {
+  createCustomFoodSchema,
+  updateCustomFoodSchema,
+  searchByNameSchema,
+} from "../types";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import customFoodService from "../services/customFoodService";
+import recipeService from "../services/recipeService";
+import logger from "../utils/logger";
+import { formatValidationErrors, parseIdParam } from "../utils/validation";
+
+const router: IRouter = Router();
+
+const customFoodNotFound = {
+  error: "Not Found",
+  message: "Custom food not found",
+  status_code: 404,
+};
+
+router.post(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = createCustomFoodSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const food = await customFoodService.create(req.user!.id, validationResult.data);
+
+      logger.info(`Custom food created`, {
+        userId: req.user!.id,
+        customFoodId: food.id,
+      });
+
+      return res.status(201).json(customFoodService.formatCustomFood(food));
+    } catch (error) {
+      logger.error("Custom food creation error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to create custom food",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = searchByNameSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { q, limit, offset } = validationResult.data;
+      const foods = await customFoodService.list(req.user!.id, q, limit, offset);
+
+      return res.status(200).json({
+        foods: foods.map((food) => customFoodService.formatCustomFood(food)),
+        limit,
+        offset,
+      });
+    } catch (error) {
+      logger.error("Custom food listing error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch custom foods",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const foodId = parseIdParam(req.params["id"]);
+      const food = foodId ? await customFoodService.get(req.user!.id, foodId) : null;
+
+      if (!food) {
+        return res.status(404).json(customFoodNotFound);
+      }
+
+      return res.status(200).json(customFoodService.formatCustomFood(food));
+    } catch (error) {
+      logger.error("Custom food fetch error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch custom food",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.patch(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const foodId = parseIdParam(req.params["id"]);
+      if (!foodId) {
+        return res.status(404).json(customFoodNotFound);
+      }
+
+      const validationResult = updateCustomFoodSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const food = await customFoodService.update(req.user!.id, foodId, validationResult.data);
+
+      if (!food) {
+        return res.status(404).json(customFoodNotFound);
+      }
+
+      // Keep saved recipes that use this food in sync with its new label
+      const recipesUpdated = await recipeService.recomputeForCustomFood(req.user!.id, food.id);
+
+      logger.info(`Custom food updated`, {
+        userId: req.user!.id,
+        customFoodId: food.id,
+        recipesUpdated,
+      });
+
+      return res.status(200).json({
+        ...customFoodService.formatCustomFood(food),
+        recipes_updated: recipesUpdated,
+      });
+    } catch (error) {
+      logger.error("Custom food update error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to update custom food",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const foodId = parseIdParam(req.params["id"]);
+      const food = foodId ? await customFoodService.get(req.user!.id, foodId) : null;
+
+      if (!food) {
+        return res.status(404).json(customFoodNotFound);
+      }
+
+      const usedBy = await recipeService.findRecipesUsingCustomFood(food.id);
+      if (usedBy.length > 0) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: `Custom food "${food.name}" is used by ${usedBy.length} recipe(s): ${usedBy.map((recipe) => recipe.name).join(", ")}. Remove it from these recipes first.`,
+          status_code: 409,
+          recipes: usedBy,
+        });
+      }
+
+      await customFoodService.delete(req.user!.id, food.id);
+
+      logger.info(`Custom food deleted`, {
+        userId: req.user!.id,
+        customFoodId: food.id,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Custom food deletion error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to delete custom food",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,346 @@
+import { Router, Response, type IRouter } from "express";
+import { and, desc, eq, gte, lte, type SQL } from "drizzle-orm";
+import { db } from "../db/connection";
+import { diaryEntries, type DiaryEntry } from "../db/schema";
+import {
+  createDiaryEntrySchema,
+  updateDiaryEntrySchema,
+  listDiaryEntriesSchema,
+  type CalorieResult,
+} from "../types";
+import { strictLimiterMiddleware } from "../middleware/rateLimiter";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { resolveDataOwner } from "../middleware/sharing";
+import lookupService from "../services/lookupService";
+import customFoodService from "../services/customFoodService";
+import recipeService from "../services/recipeService";
+import logger from "../utils/logger";
+import { formatValidationErrors, parseIdParam } from "../utils/validation";
+import { calculateTotals, scaleMacronutrients } from "../utils/nutrition";
+
+const router: IRouter = Router();
+
+/**
+ * Convert a diary entry row into the snake_case API shape
+ */
+function formatDiaryEntry(entry: DiaryEntry) {
+  return {
+    id: entry.id,
+    dish_name: entry.dishName,
+    fdc_id: entry.fdcId,
+    custom_food_id: entry.customFoodId,
+    recipe_id: entry.recipeId,
+    food_name: entry.foodName,
+    servings: entry.servings,
+    meal_type: entry.mealType,
+    consumed_at: entry.consumedAt.toISOString(),
+    calories_per_serving: entry.caloriesPerServing,
+    total_calories: entry.totalCalories,
+    macronutrients_per_serving: entry.macronutrientsPerServing,
+    total_macronutrients: entry.totalMacronutrients,
+    source: entry.source,
+    created_at: entry.createdAt.toISOString(),
+    updated_at: entry.updatedAt.toISOString(),
+  };
+}
+
+const entryNotFound = {
+  error: "Not Found",
+  message: "Diary entry not found",
+  status_code: 404,
+};
+
+router.post(
+  "/entries",
+  authenticateToken,
+  strictLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = createDiaryEntrySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { dish_name, servings, quantity, unit, calorie_result, meal_type, consumed_at } =
+        validationResult.data;
+
+      // Either look the dish up now, or reuse a result the client already has
+      let result: CalorieResult;
+      if (dish_name) {
+        const amount = lookupService.resolveAmount({ dish_name, servings, quantity, unit });
+        result = await lookupService.calculateCalories(req.user!.id, amount);
+      } else {
+        result = calorie_result!;
+
+        // Custom matches must point at the caller's own foods and recipes
+        const customMatch = result.custom_match;
+        if (customMatch) {
+          const owned = customMatch.type === "custom_food"
+            ? await customFoodService.get(req.user!.id, customMatch.id)
+            : await recipeService.get(req.user!.id, customMatch.id);
+          if (!owned) {
+            return res.status(422).json({
+              error: "Unprocessable Entity",
+              message: `Unknown ${customMatch.type === "custom_food" ? "custom food" : "recipe"} in calorie_result`,
+              status_code: 422,
+            });
+          }
+        }
+      }
+
+      const entryServings = servings ?? result.servings;
+      const macronutrientsPerServing = scaleMacronutrients(
+        result.macronutrients_per_serving ?? { protein: 0, total_fat: 0, carbohydrates: 0 },
+        1
+      );
+      const caloriesPerServing = Math.round(result.calories_per_serving);
+      const { totalCalories, totalMacronutrients } = calculateTotals(
+        caloriesPerServing,
+        macronutrientsPerServing,
+        entryServings
+      );
+
+      const [entry] = await db
+        .insert(diaryEntries)
+        .values({
+          userId: req.user!.id,
+          dishName: result.dish_name,
+          fdcId: result.matched_food?.fdc_id ?? null,
+          customFoodId: result.custom_match?.type === "custom_food" ? result.custom_match.id : null,
+          recipeId: result.custom_match?.type === "recipe" ? result.custom_match.id : null,
+          foodName: result.matched_food?.name ?? result.custom_match?.name ?? result.dish_name,
+          servings: entryServings,
+          mealType: meal_type,
+          consumedAt: consumed_at ? new Date(consumed_at) : new Date(),
+          caloriesPerServing,
+          totalCalories,
+          macronutrientsPerServing,
+          totalMacronutrients,
+          source: result.source,
+        })
+        .returning();
+
+      logger.info(`Diary entry created`, {
+        userId: req.user!.id,
+        entryId: entry!.id,
+        fdcId: entry!.fdcId,
+        mealType: entry!.mealType,
+      });
+
+      return res.status(201).json(formatDiaryEntry(entry!));
+    } catch (error) {
+      logger.error("Diary entry creation error:", error);
+
+      if (error instanceof Error) {
+        if (
+          error.message.includes("No foods found") ||
+          error.message.includes("No suitable match found")
+        ) {
+          return res.status(404).json({
+            error: "Not Found",
+            message: `Dish not found: ${error.message}`,
+            status_code: 404,
+          });
+        }
+
+        if (error.message.includes("No calorie information available")) {
+          return res.status(422).json({
+            error: "Unprocessable Entity",
+            message: error.message,
+            status_code: 422,
+          });
+        }
+      }
+
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to create diary entry",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/entries",
+  authenticateToken,
+  resolveDataOwner("diary"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = listDiaryEntriesSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { from, to, meal_type, limit, offset } = validationResult.data;
+
+      const conditions: SQL[] = [eq(diaryEntries.userId, req.dataOwner!.id)];
+      if (from) conditions.push(gte(diaryEntries.consumedAt, new Date(from)));
+      if (to) conditions.push(lte(diaryEntries.consumedAt, new Date(to)));
+      if (meal_type) conditions.push(eq(diaryEntries.mealType, meal_type));
+
+      const entries = await db
+        .select()
+        .from(diaryEntries)
+        .where(and(...conditions))
+        .orderBy(desc(diaryEntries.consumedAt), desc(diaryEntries.id))
+        .limit(limit)
+        .offset(offset);
+
+      return res.status(200).json({
+        entries: entries.map(formatDiaryEntry),
+        limit,
+        offset,
+      });
+    } catch (error) {
+      logger.error("Diary entry listing error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch diary entries",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/entries/:id",
+  authenticateToken,
+  resolveDataOwner("diary"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const entryId = parseIdParam(req.params["id"]);
+      if (!entryId) {
+        return res.status(404).json(entryNotFound);
+      }
+
+      const [entry] = await db
+        .select()
+        .from(diaryEntries)
+        .where(and(eq(diaryEntries.id, entryId), eq(diaryEntries.userId, req.dataOwner!.id)))
+        .limit(1);
+
+      if (!entry) {
+        return res.status(404).json(entryNotFound);
+      }
+
+      return res.status(200).json(formatDiaryEntry(entry));
+    } catch (error) {
+      logger.error("Diary entry fetch error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch diary entry",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.patch(
+  "/entries/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const entryId = parseIdParam(req.params["id"]);
+      if (!entryId) {
+        return res.status(404).json(entryNotFound);
+      }
+
+      const validationResult = updateDiaryEntrySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { servings, meal_type, consumed_at } = validationResult.data;
+
+      const [existing] = await db
+        .select()
+        .from(diaryEntries)
+        .where(and(eq(diaryEntries.id, entryId), eq(diaryEntries.userId, req.user!.id)))
+        .limit(1);
+
+      if (!existing) {
+        return res.status(404).json(entryNotFound);
+      }
+
+      const changes: Partial<typeof diaryEntries.$inferInsert> = { updatedAt: new Date() };
+      if (servings !== undefined) {
+        // Re-derive totals from the per-serving snapshot
+        const { totalCalories, totalMacronutrients } = calculateTotals(
+          existing.caloriesPerServing,
+          existing.macronutrientsPerServing,
+          servings
+        );
+        changes.servings = servings;
+        changes.totalCalories = totalCalories;
+        changes.totalMacronutrients = totalMacronutrients;
+      }
+      if (meal_type) changes.mealType = meal_type;
+      if (consumed_at) changes.consumedAt = new Date(consumed_at);
+
+      const [entry] = await db
+        .update(diaryEntries)
+        .set(changes)
+        .where(eq(diaryEntries.id, existing.id))
+        .returning();
+
+      logger.info(`Diary entry updated`, {
+        userId: req.user!.id,
+        entryId: existing.id,
+      });
+
+      return res.status(200).json(formatDiaryEntry(entry!));
+    } catch (error) {
+      logger.error("Diary entry update error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to update diary entry",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.delete(
+  "/entries/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const entryId = parseIdParam(req.params["id"]);
+      if (!entryId) {
+        return res.status(404).json(entryNotFound);
+      }
+
+      const [deleted] = await db
+        .delete(diaryEntries)
+        .where(and(eq(diaryEntries.id, entryId), eq(diaryEntries.userId, req.user!.id)))
+        .returning({ id: diaryEntries.id });
+
+      if (!deleted) {
+        return res.status(404).json(entryNotFound);
+      }
+
+      logger.info(`Diary entry deleted`, {
+        userId: req.user!.id,
+        entryId: deleted.id,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Diary entry deletion error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to delete diary entry",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,133 @@
+import { Router, Response, type IRouter } from "express";
+import { foodSearchSchema, fdcIdParamSchema, gtinParamSchema } from "../types";
+import { strictLimiterMiddleware } from "../middleware/rateLimiter";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import usdaService from "../services/usdaService";
+import logger from "../utils/logger";
+import { formatValidationErrors } from "../utils/validation";
+
+const router: IRouter = Router();
+
+/**
+ * Map USDA lookup errors to HTTP responses
+ */
+function sendLookupError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof Error && error.message.includes("No foods found")) {
+    return res.status(404).json({
+      error: "Not Found",
+      message: error.message,
+      status_code: 404,
+    });
+  }
+
+  return res.status(500).json({
+    error: "Internal Server Error",
+    message: fallbackMessage,
+    status_code: 500,
+  });
+}
+
+router.get(
+  "/search",
+  authenticateToken,
+  strictLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = foodSearchSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { q, page, pageSize, dataType, brandOwner } = validationResult.data;
+
+      const results = await usdaService.searchCandidates(q, {
+        pageNumber: page,
+        pageSize,
+        ...(dataType && { dataType }),
+        ...(brandOwner && { brandOwner }),
+      });
+
+      logger.info(`Food search successful`, {
+        userId: req.user?.id,
+        query: q,
+        page,
+        resultCount: results.foods.length,
+        cache: results.cache?.status,
+      });
+
+      return res.status(200).json(results);
+    } catch (error) {
+      logger.error("Food search error:", error);
+
+      if (error instanceof Error && error.message === "Invalid search query for USDA API") {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+          status_code: 400,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to search foods",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/barcode/:gtin",
+  authenticateToken,
+  strictLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = gtinParamSchema.safeParse(req.params["gtin"]);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { value: food, cache } = await usdaService.getFoodByBarcode(validationResult.data);
+
+      logger.info(`Barcode lookup successful`, {
+        userId: req.user?.id,
+        gtin: validationResult.data,
+        fdcId: food.fdcId,
+      });
+
+      return res.status(200).json({ ...usdaService.formatFoodDetails(food), ...(cache && { cache }) });
+    } catch (error) {
+      logger.error("Barcode lookup error:", error);
+      return sendLookupError(res, error, "Failed to look up barcode");
+    }
+  }
+);
+
+router.get(
+  "/:fdcId",
+  authenticateToken,
+  strictLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = fdcIdParamSchema.safeParse(req.params["fdcId"]);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { value: food, cache } = await usdaService.getFoodById(validationResult.data);
+
+      return res.status(200).json({ ...usdaService.formatFoodDetails(food), ...(cache && { cache }) });
+    } catch (error) {
+      logger.error("Food lookup error:", error);
+      return sendLookupError(res, error, "Failed to fetch food details");
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,85 @@
+import { Router, Response, type IRouter } from "express";
+import { updateGoalsSchema, suggestGoalsSchema } from "../types";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { resolveDataOwner } from "../middleware/sharing";
+import goalsService from "../services/goalsService";
+import logger from "../utils/logger";
+import { formatValidationErrors } from "../utils/validation";
+
+const router: IRouter = Router();
+
+router.get(
+  "/",
+  authenticateToken,
+  resolveDataOwner("goals"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const goals = await goalsService.getGoals(req.dataOwner!.id);
+
+      if (!goals) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "No goals have been set yet",
+          status_code: 404,
+        });
+      }
+
+      return res.status(200).json(goalsService.formatGoals(goals));
+    } catch (error) {
+      logger.error("Goals fetch error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch goals",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.put(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = updateGoalsSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const goals = await goalsService.saveGoals(req.user!.id, validationResult.data);
+
+      logger.info(`Goals updated`, {
+        userId: req.user!.id,
+        dailyCalories: goals.dailyCalories,
+      });
+
+      return res.status(200).json(goalsService.formatGoals(goals));
+    } catch (error) {
+      logger.error("Goals update error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to update goals",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.post(
+  "/suggest",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const validationResult = suggestGoalsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorResponse = formatValidationErrors(validationResult.error);
+      return res.status(errorResponse.status_code).json(errorResponse);
+    }
+
+    return res.status(200).json(goalsService.suggestGoals(validationResult.data));
+  }
+);
+
+export default router;
@@ -0,0 +1,154 @@
+import { Router, Response, type IRouter } from "express";
+import { createMatchCorrectionSchema, listMatchCorrectionsSchema } from "../types";
+import { strictLimiterMiddleware } from "../middleware/rateLimiter";
+import { authenticateToken, requirePermission, AuthenticatedRequest } from "../middleware/auth";
+import matchCorrectionService from "../services/matchCorrectionService";
+import usdaService from "../services/usdaService";
+import logger from "../utils/logger";
+import { formatValidationErrors, parseIdParam } from "../utils/validation";
+
+const router: IRouter = Router();
+
+router.post(
+  "/corrections",
+  authenticateToken,
+  strictLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = createMatchCorrectionSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { query, fdc_id } = validationResult.data;
+
+      let foodName: string;
+      try {
+        foodName = (await usdaService.getFoodById(fdc_id)).value.description;
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("No foods found")) {
+          return res.status(404).json({
+            error: "Not Found",
+            message: error.message,
+            status_code: 404,
+          });
+        }
+        throw error;
+      }
+
+      const correction = await matchCorrectionService.save(req.user!.id, query, fdc_id, foodName);
+
+      logger.info(`Match correction saved`, {
+        userId: req.user!.id,
+        query: correction.query,
+        fdcId: fdc_id,
+      });
+
+      return res.status(201).json(matchCorrectionService.formatCorrection(correction));
+    } catch (error) {
+      logger.error("Match correction error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to save match correction",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/corrections",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = listMatchCorrectionsSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { limit, offset } = validationResult.data;
+      const corrections = await matchCorrectionService.list(req.user!.id, limit, offset);
+
+      return res.status(200).json({
+        corrections: corrections.map((correction) => matchCorrectionService.formatCorrection(correction)),
+        limit,
+        offset,
+      });
+    } catch (error) {
+      logger.error("Match correction listing error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch match corrections",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// Admins and nutritionists: the queries users correct most, to find where the default matcher goes wrong
+router.get(
+  "/corrections/top",
+  authenticateToken,
+  requirePermission("corrections:review"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = listMatchCorrectionsSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { limit, offset } = validationResult.data;
+      const queries = await matchCorrectionService.listMostCorrected(limit, offset);
+
+      return res.status(200).json({ queries, limit, offset });
+    } catch (error) {
+      logger.error("Most corrected queries error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch most corrected queries",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.delete(
+  "/corrections/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const correctionId = parseIdParam(req.params["id"]);
+      const deleted = correctionId ? await matchCorrectionService.delete(req.user!.id, correctionId) : false;
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "Match correction not found",
+          status_code: 404,
+        });
+      }
+
+      logger.info(`Match correction deleted`, {
+        userId: req.user!.id,
+        correctionId,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Match correction deletion error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to delete match correction",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,344 @@
+import { Router, Response, type IRouter } from "express";
+import {
+  updateProfileSchema,
+  changePasswordSchema,
+  deleteAccountSchema,
+  createApiKeySchema,
+  updateApiKeySchema,
+} from "../types";
+import { allowUnverifiedEmail, authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { authLimiterMiddleware, getRateLimitUsage } from "../middleware/rateLimiter";
+import userService from "../services/userService";
+import apiKeyService from "../services/apiKeyService";
+import logger from "../utils/logger";
+import { formatValidationErrors, parseIdParam } from "../utils/validation";
+
+const router: IRouter = Router();
+
+const sendInvalidPassword = (res: Response) =>
+  res.status(422).json({
+    error: "Invalid Credentials",
+    message: "Password is incorrect",
+    status_code: 422,
+  });
+
+const isInvalidPassword = (error: unknown) =>
+  error instanceof Error && error.message.includes("Password is incorrect");
+
+const apiKeyNotFound = {
+  error: "Not Found",
+  message: "API key not found",
+  status_code: 404,
+};
+
+router.get(
+  "/",
+  allowUnverifiedEmail,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await userService.getById(req.user!.id);
+
+      if (!user) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "User not found",
+          status_code: 404,
+        });
+      }
+
+      return res.status(200).json(userService.formatProfile(user));
+    } catch (error) {
+      logger.error("Profile fetch error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch profile",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// Remaining quota in each rate limiter for the signed-in user's plan
+router.get(
+  "/usage",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      return res.status(200).json(await getRateLimitUsage(req));
+    } catch (error) {
+      logger.error("Usage fetch error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch rate limit usage",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// Rate limited like login: changing the email checks current_password
+router.patch(
+  "/",
+  authLimiterMiddleware,
+  allowUnverifiedEmail,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = updateProfileSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const user = await userService.updateProfile(req.user!.id, validationResult.data);
+
+      logger.info(`Profile updated`, {
+        userId: req.user!.id,
+        fields: Object.keys(validationResult.data).filter((field) => field !== "current_password"),
+      });
+
+      return res.status(200).json(userService.formatProfile(user));
+    } catch (error) {
+      if (isInvalidPassword(error)) {
+        return sendInvalidPassword(res);
+      }
+
+      if (error instanceof Error && error.message.includes("already exists")) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: error.message,
+          status_code: 409,
+        });
+      }
+
+      logger.error("Profile update error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to update profile",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// Rate limited like login, since a wrong current password is a password guess
+router.post(
+  "/change-password",
+  authLimiterMiddleware,
+  allowUnverifiedEmail,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = changePasswordSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { current_password, new_password } = validationResult.data;
+      const sessionsRevoked = await userService.changePassword(
+        req.user!.id,
+        req.user!.session_id,
+        current_password,
+        new_password
+      );
+
+      logger.info(`Password changed`, {
+        userId: req.user!.id,
+        sessionsRevoked,
+      });
+
+      return res.status(200).json({
+        message: "Password changed; other sessions have been logged out",
+        sessions_revoked: sessionsRevoked,
+      });
+    } catch (error) {
+      if (isInvalidPassword(error)) {
+        return sendInvalidPassword(res);
+      }
+
+      logger.error("Password change error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to change password",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.delete(
+  "/",
+  authLimiterMiddleware,
+  allowUnverifiedEmail,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = deleteAccountSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      await userService.deleteAccount(req.user!.id, validationResult.data.password);
+
+      logger.info(`Account deleted`, {
+        userId: req.user!.id,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      if (isInvalidPassword(error)) {
+        return sendInvalidPassword(res);
+      }
+
+      logger.error("Account deletion error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to delete account",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// The key is only ever returned here; afterwards only its prefix is shown
+router.post(
+  "/api-keys",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = createApiKeySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { apiKey, key } = await apiKeyService.create(req.user!.id, validationResult.data);
+
+      logger.info(`API key created`, {
+        userId: req.user!.id,
+        apiKeyId: apiKey.id,
+        scopes: apiKey.scopes,
+      });
+
+      return res.status(201).json({
+        ...apiKeyService.formatApiKey(apiKey),
+        key,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("API key limit reached")) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: error.message,
+          status_code: 409,
+        });
+      }
+
+      logger.error("API key creation error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to create API key",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/api-keys",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const apiKeys = await apiKeyService.list(req.user!.id);
+
+      return res.status(200).json({
+        api_keys: apiKeys.map((apiKey) => apiKeyService.formatApiKey(apiKey)),
+      });
+    } catch (error) {
+      logger.error("API key list error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch API keys",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.patch(
+  "/api-keys/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const apiKeyId = parseIdParam(req.params["id"]);
+      if (!apiKeyId) {
+        return res.status(404).json(apiKeyNotFound);
+      }
+
+      const validationResult = updateApiKeySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const apiKey = await apiKeyService.update(req.user!.id, apiKeyId, validationResult.data);
+
+      if (!apiKey) {
+        return res.status(404).json(apiKeyNotFound);
+      }
+
+      logger.info(`API key updated`, {
+        userId: req.user!.id,
+        apiKeyId,
+        scopes: apiKey.scopes,
+      });
+
+      return res.status(200).json(apiKeyService.formatApiKey(apiKey));
+    } catch (error) {
+      logger.error("API key update error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to update API key",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.delete(
+  "/api-keys/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const apiKeyId = parseIdParam(req.params["id"]);
+      const revoked = apiKeyId ? await apiKeyService.revoke(req.user!.id, apiKeyId) : false;
+
+      if (!revoked) {
+        return res.status(404).json(apiKeyNotFound);
+      }
+
+      logger.info(`API key revoked`, {
+        userId: req.user!.id,
+        apiKeyId,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("API key revoke error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to revoke API key",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,198 @@
+import { Router, Response, type IRouter } from "express";
+import { createRecipeSchema, updateRecipeSchema, searchByNameSchema } from "../types";
+import { strictLimiterMiddleware } from "../middleware/rateLimiter";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import recipeService from "../services/recipeService";
+import logger from "../utils/logger";
+import { formatValidationErrors, parseIdParam } from "../utils/validation";
+
+const router: IRouter = Router();
+
+const recipeNotFound = {
+  error: "Not Found",
+  message: "Recipe not found",
+  status_code: 404,
+};
+
+/**
+ * Map ingredient resolution errors to HTTP responses
+ */
+function sendRecipeError(res: Response, error: unknown, fallbackMessage: string) {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Custom food") ||
+      error.message.includes("No foods found") ||
+      error.message.includes("No calorie information available"))
+  ) {
+    return res.status(422).json({
+      error: "Unprocessable Entity",
+      message: `Invalid ingredient: ${error.message}`,
+      status_code: 422,
+    });
+  }
+
+  return res.status(500).json({
+    error: "Internal Server Error",
+    message: fallbackMessage,
+    status_code: 500,
+  });
+}
+
+router.post(
+  "/",
+  authenticateToken,
+  strictLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = createRecipeSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const recipe = await recipeService.create(req.user!.id, validationResult.data);
+
+      logger.info(`Recipe created`, {
+        userId: req.user!.id,
+        recipeId: recipe.id,
+        ingredientCount: recipe.ingredients.length,
+      });
+
+      return res.status(201).json(recipeService.formatRecipe(recipe));
+    } catch (error) {
+      logger.error("Recipe creation error:", error);
+      return sendRecipeError(res, error, "Failed to create recipe");
+    }
+  }
+);
+
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = searchByNameSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { q, limit, offset } = validationResult.data;
+      const recipes = await recipeService.list(req.user!.id, q, limit, offset);
+
+      return res.status(200).json({
+        recipes: recipes.map((recipe) => ({
+          id: recipe.id,
+          name: recipe.name,
+          servings: recipe.servings,
+          calories_per_serving: Math.round(recipe.totalCalories / recipe.servings),
+          total_calories: recipe.totalCalories,
+          updated_at: recipe.updatedAt.toISOString(),
+        })),
+        limit,
+        offset,
+      });
+    } catch (error) {
+      logger.error("Recipe listing error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch recipes",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const recipeId = parseIdParam(req.params["id"]);
+      const recipe = recipeId ? await recipeService.get(req.user!.id, recipeId) : null;
+
+      if (!recipe) {
+        return res.status(404).json(recipeNotFound);
+      }
+
+      return res.status(200).json(recipeService.formatRecipe(recipe));
+    } catch (error) {
+      logger.error("Recipe fetch error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch recipe",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.patch(
+  "/:id",
+  authenticateToken,
+  strictLimiterMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const recipeId = parseIdParam(req.params["id"]);
+      if (!recipeId) {
+        return res.status(404).json(recipeNotFound);
+      }
+
+      const validationResult = updateRecipeSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const recipe = await recipeService.update(req.user!.id, recipeId, validationResult.data);
+
+      if (!recipe) {
+        return res.status(404).json(recipeNotFound);
+      }
+
+      logger.info(`Recipe updated`, {
+        userId: req.user!.id,
+        recipeId: recipe.id,
+      });
+
+      return res.status(200).json(recipeService.formatRecipe(recipe));
+    } catch (error) {
+      logger.error("Recipe update error:", error);
+      return sendRecipeError(res, error, "Failed to update recipe");
+    }
+  }
+);
+
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const recipeId = parseIdParam(req.params["id"]);
+      const deleted = recipeId ? await recipeService.delete(req.user!.id, recipeId) : false;
+
+      if (!deleted) {
+        return res.status(404).json(recipeNotFound);
+      }
+
+      logger.info(`Recipe deleted`, {
+        userId: req.user!.id,
+        recipeId,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Recipe deletion error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to delete recipe",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,230 @@
+import { Router, Response, type IRouter } from "express";
+import { createShareInviteSchema, listAccessLogSchema } from "../types";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { authLimiterMiddleware } from "../middleware/rateLimiter";
+import sharingService from "../services/sharingService";
+import logger from "../utils/logger";
+import { formatValidationErrors, parseIdParam } from "../utils/validation";
+
+const router: IRouter = Router();
+
+const grantNotFound = {
+  error: "Not Found",
+  message: "Sharing grant not found",
+  status_code: 404,
+};
+
+// The client invites a coach by email. The answer is the same whether or not the email has an
+// account, and invitations count against the authentication rate limit, so they can't be used to
+// probe for accounts.
+router.post(
+  "/coaches",
+  authLimiterMiddleware,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = createShareInviteSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { id, first_name, last_name, email } = req.user!;
+      const grant = await sharingService.invite(
+        { id, first_name, last_name, email },
+        validationResult.data
+      );
+
+      logger.info(grant ? `Coach invited` : `Coach already invited`, {
+        userId: req.user!.id,
+        grantId: grant?.id,
+        scopes: validationResult.data.scopes,
+      });
+
+      return res.status(202).json({
+        message: "The coach has been invited unless they already have access",
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("with yourself")) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+          status_code: 400,
+        });
+      }
+
+      logger.error("Coach invite error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to invite coach",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/coaches",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const coaches = await sharingService.listCoaches(req.user!.id);
+
+      return res.status(200).json({
+        coaches: coaches.map(({ grant, coach }) => sharingService.formatGrant(grant, { coach })),
+      });
+    } catch (error) {
+      logger.error("Coach listing error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch coaches",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// The client takes a coach's access away, or withdraws an invitation
+router.delete(
+  "/coaches/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const grantId = parseIdParam(req.params["id"]);
+      const grant = grantId ? await sharingService.end(req.user!, grantId, "client") : null;
+
+      if (!grant) {
+        return res.status(404).json(grantNotFound);
+      }
+
+      logger.info(`Coach access revoked`, {
+        userId: req.user!.id,
+        coachId: grant.coachId,
+        grantId,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Coach revoke error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to revoke coach access",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/clients",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const clients = await sharingService.listClients(req.user!);
+
+      return res.status(200).json({
+        clients: clients.map(({ grant, client }) => sharingService.formatGrant(grant, { client })),
+      });
+    } catch (error) {
+      logger.error("Client listing error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch clients",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.post(
+  "/clients/:id/accept",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const grantId = parseIdParam(req.params["id"]);
+      const grant = grantId ? await sharingService.accept(req.user!, grantId) : null;
+
+      if (!grant) {
+        return res.status(404).json(grantNotFound);
+      }
+
+      logger.info(`Coach invitation accepted`, {
+        userId: req.user!.id,
+        clientId: grant.clientId,
+        grantId,
+      });
+
+      return res.status(200).json(sharingService.formatGrant(grant));
+    } catch (error) {
+      logger.error("Coach invitation accept error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to accept invitation",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// The coach declines an invitation or stops coaching a client
+router.delete(
+  "/clients/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const grantId = parseIdParam(req.params["id"]);
+      const grant = grantId ? await sharingService.end(req.user!, grantId, "coach") : null;
+
+      if (!grant) {
+        return res.status(404).json(grantNotFound);
+      }
+
+      logger.info(`Coach left client`, {
+        userId: req.user!.id,
+        clientId: grant.clientId,
+        grantId,
+        status: grant.status,
+      });
+
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Coach leave error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to end coaching",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+// Every read of the signed-in user's data by their coaches
+router.get(
+  "/access-log",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = listAccessLogSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { limit, offset } = validationResult.data;
+      const entries = await sharingService.listAccessLog(req.user!.id, validationResult.data);
+
+      return res.status(200).json({ entries, limit, offset });
+    } catch (error) {
+      logger.error("Access log error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch access log",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
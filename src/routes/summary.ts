@@ -0,0 +1,92 @@
+import { Router, Response, type IRouter } from "express";
+import { dailySummarySchema, rangeSummarySchema } from "../types";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { resolveDataOwner } from "../middleware/sharing";
+import summaryService from "../services/summaryService";
+import goalsService from "../services/goalsService";
+import logger from "../utils/logger";
+import { formatValidationErrors } from "../utils/validation";
+
+const router: IRouter = Router();
+
+router.get(
+  "/daily",
+  authenticateToken,
+  resolveDataOwner("summary"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = dailySummarySchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { date, timezone } = validationResult.data;
+
+      const summary = await summaryService.getDailySummary(
+        req.dataOwner!.id,
+        date,
+        timezone ?? req.dataOwner!.timezone
+      );
+
+      // Progress reveals the targets, so a coach only gets it when the grant also covers goals
+      const { scopes } = req.dataOwner!;
+      const goals = !scopes || scopes.includes("goals")
+        ? await goalsService.getGoals(req.dataOwner!.id)
+        : null;
+      if (goals) {
+        summary.goal_progress = goalsService.calculateProgress(
+          goals,
+          summary.total_calories,
+          summary.total_macronutrients
+        );
+      }
+
+      return res.status(200).json(summary);
+    } catch (error) {
+      logger.error("Daily summary error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to build daily summary",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+router.get(
+  "/range",
+  authenticateToken,
+  resolveDataOwner("summary"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validationResult = rangeSummarySchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        const errorResponse = formatValidationErrors(validationResult.error);
+        return res.status(errorResponse.status_code).json(errorResponse);
+      }
+
+      const { from, to, timezone } = validationResult.data;
+
+      const summary = await summaryService.getRangeSummary(
+        req.dataOwner!.id,
+        from,
+        to,
+        timezone ?? req.dataOwner!.timezone
+      );
+
+      return res.status(200).json(summary);
+    } catch (error) {
+      logger.error("Range summary error:", error);
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to build range summary",
+        status_code: 500,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,186 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ENERGY_NUTRIENT_IDS, USDAFood } from '../types';
+import { rankFoods } from '../utils/foodMatching';
+
+const USAGE = `Usage: pnpm match:eval [--record]
+
+Runs the golden queries in fixtures/matching/golden.json through the food matcher, using the USDA search
+results recorded in fixtures/matching/searches, and reports how often the expected food is picked. Also
+runs the hand-written ranking checks in fixtures/matching/checks.json. Exits non-zero when a check fails
+or a golden query has no recorded search.
+
+  --record    Fetch fresh search results from the USDA API (needs USDA_API_KEY) before evaluating`;
+
+const FIXTURE_DIR = join(__dirname, '../../fixtures/matching');
+const SEARCH_DIR = join(FIXTURE_DIR, 'searches');
+
+// Rank within which an expected food still counts as a near miss
+const TOP_N = 3;
+
+// Lowest match score for a food whose words match the query; fuzzy matches score below it
+const WORD_MATCH_SCORE = 80;
+
+interface GoldenCase {
+  query: string;
+  // Any of these is a correct answer, e.g. the SR Legacy and Foundation entries for the same food
+  expected_fdc_ids?: number[];
+  // Or any food whose description contains this, for queries many entries answer equally well
+  expected_description?: string;
+}
+
+// A fixed list of candidates and the one that must come first, for rules that don't need real searches
+interface RankingCheck {
+  query: string;
+  foods: string[];
+  expected: string;
+  // Candidates that must not count as matching the query's words
+  unrelated?: string[];
+}
+
+interface RecordedSearch {
+  query: string;
+  recorded_at: string;
+  foods: USDAFood[];
+}
+
+const fixturePath = (query: string) =>
+  join(SEARCH_DIR, `${query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.json`);
+
+/**
+ * Keep only what matching looks at, so fixtures stay small and readable
+ */
+function trimFood(food: USDAFood): USDAFood {
+  return {
+    fdcId: food.fdcId,
+    description: food.description,
+    lowercaseDescription: food.lowercaseDescription,
+    dataType: food.dataType,
+    publishedDate: food.publishedDate,
+    ...(food.brandOwner && { brandOwner: food.brandOwner }),
+    foodNutrients: food.foodNutrients.filter(nutrient => nutrient.nutrientId === ENERGY_NUTRIENT_IDS.ENERGY_KCAL),
+  };
+}
+
+async function record(cases: GoldenCase[]): Promise<void> {
+  // Loaded only here so evaluating fixtures needs no environment
+  const { env } = await import('../env');
+  const { UsdaApiFoodProvider } = await import('../services/foodProviders');
+
+  if (!env.USDA_API_KEY) throw new Error('USDA_API_KEY is required to record search results');
+  const provider = new UsdaApiFoodProvider(env.USDA_API_KEY);
+
+  mkdirSync(SEARCH_DIR, { recursive: true });
+  for (const { query } of cases) {
+    // Same first page that /get-calories matches against
+    const response = await provider.search(query, {});
+    const recorded: RecordedSearch = {
+      query,
+      recorded_at: new Date().toISOString(),
+      foods: response.foods.map(trimFood),
+    };
+    writeFileSync(fixturePath(query), `${JSON.stringify(recorded, null, 2)}\n`);
+    console.log(`📼 Recorded ${response.foods.length} foods for "${query}"`);
+  }
+}
+
+function evaluate(cases: GoldenCase[]): void {
+  let top1 = 0;
+  let topN = 0;
+  let reciprocalRankSum = 0;
+  const missing: string[] = [];
+
+  for (const { query, expected_fdc_ids = [], expected_description } of cases) {
+    const path = fixturePath(query);
+    if (!existsSync(path)) {
+      missing.push(query);
+      continue;
+    }
+
+    const { foods } = JSON.parse(readFileSync(path, 'utf8')) as RecordedSearch;
+    const ranked = rankFoods(foods, query);
+    const isExpected = (food: USDAFood) =>
+      expected_fdc_ids.includes(food.fdcId) ||
+      (expected_description !== undefined && food.description.toLowerCase().includes(expected_description.toLowerCase()));
+    const rank = ranked.findIndex(({ food }) => isExpected(food)) + 1;
+    const expectation = expected_description ? `"${expected_description}"` : expected_fdc_ids.join(' or ');
+    const picked = ranked[0]?.food;
+
+    if (rank === 1) top1++;
+    if (rank > 0 && rank <= TOP_N) topN++;
+    if (rank > 0) reciprocalRankSum += 1 / rank;
+
+    const status = rank === 1 ? '✅' : rank > 0 && rank <= TOP_N ? '🟡' : '❌';
+    const detail = rank === 1 ? '' : ` (expected ${expectation}${rank > 0 ? ` at rank ${rank}` : ', not in results'})`;
+    console.log(`${status} ${query} -> ${picked ? `${picked.fdcId} ${picked.description}` : 'no match'}${detail}`);
+  }
+
+  const evaluated = cases.length - missing.length;
+  if (evaluated > 0) {
+    const percent = (count: number) => `${((count / evaluated) * 100).toFixed(1)}%`;
+    console.log(`\nTop-1: ${top1}/${evaluated} (${percent(top1)})`);
+    console.log(`Top-${TOP_N}: ${topN}/${evaluated} (${percent(topN)})`);
+    console.log(`Mean reciprocal rank: ${(reciprocalRankSum / evaluated).toFixed(3)}`);
+  }
+
+  if (missing.length > 0) {
+    console.error(`\n⚠️  No recorded search for ${missing.length} queries (run with --record): ${missing.join(', ')}`);
+    process.exitCode = 1;
+  }
+}
+
+function runChecks(checks: RankingCheck[]): void {
+  let failed = 0;
+
+  for (const { query, foods, expected, unrelated = [] } of checks) {
+    const candidates = foods.map((description, index): USDAFood => ({
+      fdcId: index + 1,
+      description,
+      lowercaseDescription: description.toLowerCase(),
+      dataType: 'SR Legacy',
+      publishedDate: '',
+      foodNutrients: [],
+    }));
+    const ranked = rankFoods(candidates, query);
+    const picked = ranked[0]?.food.description;
+    const wronglyMatched = ranked
+      .filter(({ food, matchScore }) => unrelated.includes(food.description) && matchScore >= WORD_MATCH_SCORE)
+      .map(({ food, matchScore }) => `${food.description} scored ${matchScore}`);
+
+    if (picked === expected && wronglyMatched.length === 0) {
+      console.log(`✅ ${query} -> ${picked}`);
+    } else {
+      failed++;
+      const problems = [
+        ...(picked === expected ? [] : [`picked ${picked ?? 'nothing'}, expected ${expected}`]),
+        ...wronglyMatched,
+      ];
+      console.log(`❌ ${query}: ${problems.join('; ')}`);
+    }
+  }
+
+  console.log(`\nRanking checks: ${checks.length - failed}/${checks.length} passed\n`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.some(arg => arg !== '--record')) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const cases = JSON.parse(readFileSync(join(FIXTURE_DIR, 'golden.json'), 'utf8')) as GoldenCase[];
+    const checks = JSON.parse(readFileSync(join(FIXTURE_DIR, 'checks.json'), 'utf8')) as RankingCheck[];
+    if (args.includes('--record')) await record(cases);
+    runChecks(checks);
+    evaluate(cases);
+  } catch (error) {
+    console.error('❌ Match evaluation failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+main();
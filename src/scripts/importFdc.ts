@@ -0,0 +1,71 @@
+import { closeConnection } from '../db/connection';
+import fdcImportService, { FdcImportSummary } from '../services/fdcImportService';
+import { USDA_DATA_TYPES, UsdaDataType } from '../types';
+
+const USAGE = `Usage: pnpm fdc:import [--json <file>]... [--csv-dir <directory>]... [--include-branded]
+
+Loads FoodData Central bulk downloads (https://fdc.nal.usda.gov/download-datasets) into the fdc_* tables.
+Foods already imported with the same publication date are skipped, so re-running after a new release
+only replaces what changed.
+
+  --json <file>        An unzipped JSON download (Foundation, SR Legacy or FNDDS)
+  --csv-dir <dir>      A directory holding an unzipped CSV download
+  --include-branded    Also import Branded foods (use the CSV download; the JSON is too large to load)`;
+
+interface ImportArgs {
+  jsonFiles: string[];
+  csvDirectories: string[];
+  includeBranded: boolean;
+}
+
+function parseArgs(argv: string[]): ImportArgs {
+  const args: ImportArgs = { jsonFiles: [], csvDirectories: [], includeBranded: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--include-branded') {
+      args.includeBranded = true;
+    } else if ((flag === '--json' || flag === '--csv-dir') && argv[i + 1]) {
+      (flag === '--json' ? args.jsonFiles : args.csvDirectories).push(argv[++i]!);
+    } else {
+      throw new Error(`Unknown argument: ${flag}`);
+    }
+  }
+
+  if (args.jsonFiles.length === 0 && args.csvDirectories.length === 0) {
+    throw new Error('Pass at least one --json file or --csv-dir directory');
+  }
+
+  return args;
+}
+
+async function main() {
+  let args: ImportArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const dataTypes: UsdaDataType[] = USDA_DATA_TYPES.filter(type => args.includeBranded || type !== 'Branded');
+  const report = (source: string, summary: FdcImportSummary) =>
+    console.log(`✅ ${source}: ${summary.imported} imported, ${summary.unchanged} unchanged of ${summary.processed}`);
+
+  try {
+    for (const path of args.jsonFiles) {
+      report(path, await fdcImportService.importJsonFile(path, { dataTypes }));
+    }
+    for (const directory of args.csvDirectories) {
+      report(directory, await fdcImportService.importCsvDirectory(directory, { dataTypes }));
+    }
+  } catch (error) {
+    console.error('❌ FDC import failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closeConnection();
+  }
+}
+
+main();
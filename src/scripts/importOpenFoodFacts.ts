@@ -0,0 +1,29 @@
+import { closeConnection } from '../db/connection';
+import openFoodFactsImportService from '../services/openFoodFactsImportService';
+
+const USAGE = `Usage: pnpm off:import <file.jsonl>
+
+Loads an Open Food Facts JSONL export (https://world.openfoodfacts.org/data) into the off_products table.
+Products not modified since the last import are skipped, so re-running with a newer export only
+replaces what changed.`;
+
+async function main() {
+  const [path, ...extra] = process.argv.slice(2);
+  if (!path || extra.length > 0) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const summary = await openFoodFactsImportService.importJsonl(path);
+    console.log(`✅ ${path}: ${summary.imported} imported, ${summary.unchanged} unchanged, ${summary.skipped} skipped of ${summary.processed}`);
+  } catch (error) {
+    console.error('❌ Open Food Facts import failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closeConnection();
+  }
+}
+
+main();
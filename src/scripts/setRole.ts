@@ -0,0 +1,58 @@
+import { eq } from 'drizzle-orm';
+import { closeConnection, db } from '../db/connection';
+import { users } from '../db/schema';
+import { USER_ROLES, UserRole } from '../types';
+
+const USAGE = `Usage: pnpm user:role <email> <role>
+
+Sets the role of the account with the given email. Use it to make the first admin; after that,
+admins can change roles with PATCH /admin/users/:id.
+
+  <role>    One of ${USER_ROLES.join(', ')}`;
+
+function parseArgs(argv: string[]): { email: string; role: UserRole } {
+  const [email, role, ...rest] = argv;
+
+  if (!email || !role || rest.length > 0) {
+    throw new Error('Pass an email and a role');
+  }
+  if (!(USER_ROLES as readonly string[]).includes(role)) {
+    throw new Error(`Unknown role: ${role}`);
+  }
+
+  return { email: email.trim(), role: role as UserRole };
+}
+
+async function main() {
+  let args: { email: string; role: UserRole };
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const [user] = await db
+      .update(users)
+      .set({ role: args.role, updatedAt: new Date() })
+      .where(eq(users.email, args.email))
+      .returning({ id: users.id });
+
+    if (!user) {
+      console.error(`❌ No account with email ${args.email}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`✅ ${args.email} (user ${user.id}) is now ${args.role}`);
+  } catch (error) {
+    console.error('❌ Setting the role failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closeConnection();
+  }
+}
+
+main();
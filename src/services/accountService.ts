@@ -0,0 +1,167 @@
+import bcrypt from 'bcryptjs';
+import { and, eq, gt, isNull, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { emailVerificationTokens, passwordResetTokens, users } from '../db/schema';
+import { env } from '../env';
+import logger from '../utils/logger';
+import { generateToken, hashToken } from '../utils/tokens';
+import mailService from './mailService';
+import sessionService from './sessionService';
+
+export interface AccountUser {
+  id: number;
+  firstName: string;
+  email: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+class AccountService {
+  /**
+   * Mail a new verification link. Earlier links keep working until they expire.
+   */
+  async sendVerificationEmail(user: AccountUser): Promise<void> {
+    const ttlHours: number = env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS ?? 48;
+    const token = generateToken();
+
+    await db.insert(emailVerificationTokens).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlHours * 60 * MINUTE_MS),
+    });
+
+    await mailService.sendVerificationEmail(user.email, user.firstName, token, ttlHours);
+    logger.info('Verification email sent', { userId: user.id });
+  }
+
+  /**
+   * Resend the verification link. Does nothing for unknown or already verified addresses,
+   * so callers can't tell which emails have accounts.
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const [user] = await db
+      .select({ id: users.id, firstName: users.firstName, email: users.email })
+      .from(users)
+      .where(and(eq(users.email, email), isNull(users.emailVerifiedAt)))
+      .limit(1);
+
+    if (user) {
+      await this.sendVerificationEmail(user);
+    }
+  }
+
+  /**
+   * Mark the token's email address as verified. The token can't be used again.
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const now = new Date();
+
+    const [claimed] = await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(emailVerificationTokens.tokenHash, hashToken(token)),
+        isNull(emailVerificationTokens.usedAt),
+        gt(emailVerificationTokens.expiresAt, now)
+      ))
+      .returning({ userId: emailVerificationTokens.userId });
+
+    if (!claimed) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    await db
+      .update(users)
+      .set({ emailVerifiedAt: now, updatedAt: now })
+      .where(and(eq(users.id, claimed.userId), isNull(users.emailVerifiedAt)));
+
+    logger.info('Email address verified', { userId: claimed.userId });
+  }
+
+  /**
+   * Stop every unused verification and reset link from working, e.g. once they were sent to an old address
+   */
+  async invalidateOutstandingTokens(userId: number): Promise<void> {
+    const now = new Date();
+
+    await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: now })
+      .where(and(eq(emailVerificationTokens.userId, userId), isNull(emailVerificationTokens.usedAt)));
+
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  /**
+   * Mail a password reset link. Does nothing for unknown addresses, so callers can't tell which emails have accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const [user] = await db
+      .select({ id: users.id, firstName: users.firstName, email: users.email })
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    if (!user) return;
+
+    const ttlMinutes: number = env.PASSWORD_RESET_TOKEN_TTL_MINUTES ?? 60;
+    const token = generateToken();
+
+    await db.insert(passwordResetTokens).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlMinutes * MINUTE_MS),
+    });
+
+    await mailService.sendPasswordResetEmail(user.email, user.firstName, token, ttlMinutes);
+    logger.info('Password reset email sent', { userId: user.id });
+  }
+
+  /**
+   * Set a new password with a reset token. Every other outstanding reset link stops working and all
+   * sessions are revoked, so anyone holding the old password or a stolen token is logged out.
+   * The link arrived by email, so the address counts as verified too.
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const now = new Date();
+
+    const [claimed] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, hashToken(token)),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now)
+      ))
+      .returning({ userId: passwordResetTokens.userId });
+
+    if (!claimed) {
+      throw new Error('Invalid or expired password reset token');
+    }
+
+    const saltRounds = 12;
+    const passwordHash = await bcrypt.hash(password, saltRounds);
+
+    await db
+      .update(users)
+      .set({
+        passwordHash,
+        emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, ${now})`,
+        updatedAt: now,
+      })
+      .where(eq(users.id, claimed.userId));
+
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(eq(passwordResetTokens.userId, claimed.userId), isNull(passwordResetTokens.usedAt)));
+
+    const sessionsRevoked = await sessionService.revokeAllSessions(claimed.userId, 'password_reset');
+    logger.info('Password reset', { userId: claimed.userId, sessionsRevoked });
+  }
+}
+
+export default new AccountService();
@@ -0,0 +1,216 @@
+import { and, count, desc, eq, gte, ilike, isNotNull, isNull, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { apiKeys, authSessions, users, type User } from '../db/schema';
+import { env } from '../env';
+import {
+  AdminListUsersRequest,
+  AdminStatsResponse,
+  AdminUpdateUserRequest,
+  AdminUser,
+  DailyCount,
+  PLAN_TIERS,
+  USER_ROLES,
+  type PlanTier,
+  type UserRole,
+} from '../types';
+import { escapeLikePattern } from '../utils/validation';
+import metricsService from './metricsService';
+import sessionService from './sessionService';
+import userService from './userService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UTC dates (YYYY-MM-DD) from `days - 1` days ago through today
+const lastDays = (days: number): string[] => {
+  const today = Date.now();
+  return Array.from({ length: days }, (_, index) =>
+    new Date(today - (days - 1 - index) * DAY_MS).toISOString().slice(0, 10)
+  );
+};
+
+const errorRate = (requests: number, errors: number) =>
+  requests > 0 ? Math.round((errors / requests) * 10000) / 10000 : null;
+
+class AdminService {
+  formatUser(user: User): AdminUser {
+    return {
+      ...userService.formatProfile(user),
+      disabled: user.disabledAt !== null,
+      disabled_at: user.disabledAt?.toISOString() ?? null,
+      disabled_reason: user.disabledReason,
+    };
+  }
+
+  /**
+   * Users matching the filters, newest first, with the total number of matches
+   */
+  async listUsers(filters: AdminListUsersRequest): Promise<{ users: User[]; total: number }> {
+    const conditions: SQL[] = [];
+
+    if (filters.search) {
+      const pattern = `%${escapeLikePattern(filters.search)}%`;
+      conditions.push(or(
+        ilike(users.email, pattern),
+        ilike(sql`${users.firstName} || ' ' || ${users.lastName}`, pattern)
+      )!);
+    }
+    if (filters.role) conditions.push(eq(users.role, filters.role));
+    if (filters.plan) conditions.push(eq(users.plan, filters.plan));
+    if (filters.status === 'active') conditions.push(isNull(users.disabledAt));
+    if (filters.status === 'disabled') conditions.push(isNotNull(users.disabledAt));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, [totals]] = await Promise.all([
+      db
+        .select()
+        .from(users)
+        .where(where)
+        .orderBy(desc(users.createdAt), desc(users.id))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      db.select({ total: count() }).from(users).where(where),
+    ]);
+
+    return { users: rows, total: totals?.total ?? 0 };
+  }
+
+  /**
+   * Change a user's role or plan. Admins can't change their own role, so there is always one left.
+   */
+  async updateUser(adminId: number, userId: number, data: AdminUpdateUserRequest): Promise<User | null> {
+    if (userId === adminId && data.role !== undefined) {
+      throw new Error('You cannot change your own role');
+    }
+
+    const [user] = await db
+      .update(users)
+      .set({
+        ...(data.role !== undefined && { role: data.role }),
+        ...(data.plan !== undefined && { plan: data.plan }),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+
+    return user ?? null;
+  }
+
+  /**
+   * Disable an account and log it out everywhere. Its API keys are kept, but rejected while it is disabled.
+   */
+  async disableUser(
+    adminId: number,
+    userId: number,
+    reason: string | undefined
+  ): Promise<{ user: User; sessionsRevoked: number } | null> {
+    if (userId === adminId) {
+      throw new Error('You cannot disable your own account');
+    }
+
+    const now = new Date();
+    const [user] = await db
+      .update(users)
+      .set({
+        // Disabling again only updates the reason
+        disabledAt: sql`coalesce(${users.disabledAt}, ${now})`,
+        disabledReason: reason ?? null,
+        updatedAt: now,
+      })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!user) {
+      return null;
+    }
+
+    const sessionsRevoked = await sessionService.revokeAllSessions(userId, 'account_disabled');
+    return { user, sessionsRevoked };
+  }
+
+  /**
+   * Let a disabled account log in again. Sessions revoked when it was disabled stay revoked.
+   */
+  async enableUser(userId: number): Promise<User | null> {
+    const [user] = await db
+      .update(users)
+      .set({ disabledAt: null, disabledReason: null, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    return user ?? null;
+  }
+
+  /**
+   * Account totals plus daily registrations, lookups and USDA API errors for the last `days` UTC days
+   */
+  async getStats(days: number): Promise<AdminStatsResponse> {
+    const dates = lastDays(days);
+    const since = dates[0]!;
+    const sessionCutoff = new Date(Date.now() - (env.REFRESH_TOKEN_TTL_DAYS ?? 30) * DAY_MS);
+
+    const [userGroups, [sessions], [keys], registrationRows, metrics] = await Promise.all([
+      db
+        .select({ role: users.role, plan: users.plan, total: count(), disabled: count(users.disabledAt) })
+        .from(users)
+        .groupBy(users.role, users.plan),
+      // Sessions that can still be refreshed
+      db
+        .select({ total: count() })
+        .from(authSessions)
+        .where(and(
+          isNull(authSessions.revokedAt),
+          gte(sql`coalesce(${authSessions.lastRefreshedAt}, ${authSessions.createdAt})`, sessionCutoff)
+        )),
+      db.select({ total: count() }).from(apiKeys).where(isNull(apiKeys.revokedAt)),
+      db
+        .select({ day: sql<string>`to_char(${users.createdAt}, 'YYYY-MM-DD')`, total: count() })
+        .from(users)
+        .where(gte(users.createdAt, new Date(`${since}T00:00:00Z`)))
+        .groupBy(sql`1`),
+      metricsService.getDailyCounts(['lookups', 'usda_requests', 'usda_errors'], since),
+    ]);
+
+    const byRole = Object.fromEntries(USER_ROLES.map((role) => [role, 0])) as Record<UserRole, number>;
+    const byPlan = Object.fromEntries(PLAN_TIERS.map((plan) => [plan, 0])) as Record<PlanTier, number>;
+    let totalUsers = 0;
+    let disabledUsers = 0;
+    for (const group of userGroups) {
+      byRole[group.role] += group.total;
+      byPlan[group.plan] += group.total;
+      totalUsers += group.total;
+      disabledUsers += group.disabled;
+    }
+
+    const registrationsByDay = new Map(registrationRows.map((row) => [row.day, row.total]));
+    const daily = (counts: Map<string, number> | undefined): DailyCount[] =>
+      dates.map((date) => ({ date, count: counts?.get(date) ?? 0 }));
+    const sum = (counts: DailyCount[]) => counts.reduce((total, day) => total + day.count, 0);
+
+    const registrations = daily(registrationsByDay);
+    const lookups = daily(metrics.get('lookups'));
+    const usdaRequests = daily(metrics.get('usda_requests'));
+    const usdaErrors = daily(metrics.get('usda_errors'));
+
+    return {
+      days,
+      since,
+      users: { total: totalUsers, disabled: disabledUsers, by_role: byRole, by_plan: byPlan },
+      active_sessions: sessions?.total ?? 0,
+      active_api_keys: keys?.total ?? 0,
+      registrations: { total: sum(registrations), daily: registrations },
+      lookups: { total: sum(lookups), daily: lookups },
+      usda: {
+        requests: sum(usdaRequests),
+        errors: sum(usdaErrors),
+        error_rate: errorRate(sum(usdaRequests), sum(usdaErrors)),
+        daily: usdaRequests.map(({ date, count: requests }, index) => {
+          const errors = usdaErrors[index]!.count;
+          return { date, requests, errors, error_rate: errorRate(requests, errors) };
+        }),
+      },
+    };
+  }
+}
+
+export default new AdminService();
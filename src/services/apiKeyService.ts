@@ -0,0 +1,119 @@
+import { and, count, desc, eq, isNull, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { apiKeys, type ApiKey } from '../db/schema';
+import { ApiKeyScope, CreateApiKeyRequest, MAX_API_KEYS_PER_USER, UpdateApiKeyRequest } from '../types';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Marks the string as one of our keys, e.g. for secret scanners
+const KEY_MARKER = 'cck_';
+const PREFIX_LENGTH = KEY_MARKER.length + 8;
+
+export interface UsedApiKey {
+  id: number;
+  userId: number;
+  scopes: ApiKeyScope[];
+}
+
+class ApiKeyService {
+  /**
+   * Convert a key row into the snake_case API shape. The key itself is never stored, so it can't be included.
+   */
+  formatApiKey(apiKey: ApiKey) {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes,
+      last_used_at: apiKey.lastUsedAt?.toISOString() ?? null,
+      usage_count: apiKey.usageCount,
+      created_at: apiKey.createdAt.toISOString(),
+      updated_at: apiKey.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Create a key and return it with its one and only plain-text copy
+   */
+  async create(userId: number, data: CreateApiKeyRequest): Promise<{ apiKey: ApiKey; key: string }> {
+    const [active] = await db
+      .select({ keys: count() })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+
+    if ((active?.keys ?? 0) >= MAX_API_KEYS_PER_USER) {
+      throw new Error(`API key limit reached; revoke a key before creating another (at most ${MAX_API_KEYS_PER_USER})`);
+    }
+
+    const key = `${KEY_MARKER}${generateToken()}`;
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({
+        userId,
+        name: data.name,
+        keyPrefix: key.slice(0, PREFIX_LENGTH),
+        keyHash: hashToken(key),
+        scopes: data.scopes,
+      })
+      .returning();
+
+    return { apiKey: apiKey!, key };
+  }
+
+  /**
+   * Active keys of a user, newest first
+   */
+  async list(userId: number): Promise<ApiKey[]> {
+    return db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt), desc(apiKeys.id));
+  }
+
+  async update(userId: number, id: number, data: UpdateApiKeyRequest): Promise<ApiKey | null> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.scopes !== undefined && { scopes: data.scopes }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning();
+
+    return apiKey ?? null;
+  }
+
+  /**
+   * Revoke a key for good. Revoked keys are kept, but no longer listed or accepted.
+   */
+  async revoke(userId: number, id: number): Promise<boolean> {
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+
+    return Boolean(revoked);
+  }
+
+  /**
+   * Look up an active key and count the use in the same statement. Null for unknown or revoked keys.
+   */
+  async use(key: string): Promise<UsedApiKey | null> {
+    if (!key.startsWith(KEY_MARKER)) return null;
+
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({
+        usageCount: sql`${apiKeys.usageCount} + 1`,
+        lastUsedAt: new Date(),
+      })
+      .where(and(eq(apiKeys.keyHash, hashToken(key)), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id, userId: apiKeys.userId, scopes: apiKeys.scopes });
+
+    return apiKey ?? null;
+  }
+}
+
+export default new ApiKeyService();
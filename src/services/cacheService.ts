@@ -0,0 +1,167 @@
+import { getUpstashRedis } from '../db/redis';
+import { env } from '../env';
+import { CacheInfo } from '../types';
+import logger from '../utils/logger';
+
+export interface CacheEntry<T> {
+  value: T;
+  // Epoch milliseconds when the value was fetched
+  storedAt: number;
+}
+
+/**
+ * Storage backend for cached values. Entries are dropped once ttlSeconds have passed.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Cache store backed by the shared Upstash Redis client
+ */
+export class RedisCacheStore implements CacheStore {
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    return getUpstashRedis().get<CacheEntry<T>>(key);
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+    await getUpstashRedis().set(key, entry, { ex: ttlSeconds });
+  }
+}
+
+/**
+ * In-process least-recently-used cache for tests and local development
+ */
+export class MemoryCacheStore implements CacheStore {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private readonly entries = new Map<string, { json: string; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const item = this.entries.get(key);
+    if (!item) return null;
+
+    this.entries.delete(key);
+    if (item.expiresAt <= Date.now()) return null;
+
+    this.entries.set(key, item);
+    // Stored as JSON so callers can't mutate cached values, as with Redis
+    return JSON.parse(item.json) as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { json: JSON.stringify(entry), expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+export interface CacheOptions {
+  // How long a value is served without refetching
+  ttlSeconds: number;
+  // How much longer an expired value may be served while it is refreshed in the background
+  staleSeconds?: number;
+}
+
+export interface Cached<T> {
+  value: T;
+  cache: CacheInfo;
+}
+
+class CacheService {
+  private readonly store: CacheStore;
+  // Keys being refreshed in the background, so each is only refetched once at a time
+  private readonly revalidating = new Set<string>();
+
+  constructor() {
+    // The env schema isn't applied under NODE_ENV=test, so fall back to memory there
+    this.store = env.USDA_CACHE_BACKEND === 'redis'
+      ? new RedisCacheStore()
+      : new MemoryCacheStore(env.USDA_CACHE_MAX_ENTRIES ?? 1000);
+  }
+
+  /**
+   * Return a cached value, fetching and storing it on a miss. Expired values within the
+   * stale window are returned immediately and refreshed in the background.
+   * Cache failures never fail the request; the value is fetched directly instead.
+   */
+  async getOrFetch<T>(key: string, fetcher: () => Promise<T>, options: CacheOptions): Promise<Cached<T>> {
+    const staleSeconds = options.staleSeconds ?? 0;
+
+    let entry: CacheEntry<T> | null = null;
+    try {
+      entry = await this.store.get<T>(key);
+    } catch (error) {
+      logger.warn('Cache read failed', { key, error });
+    }
+
+    if (entry) {
+      const ageSeconds = Math.max(0, Math.floor((Date.now() - entry.storedAt) / 1000));
+
+      if (ageSeconds < options.ttlSeconds) {
+        return { value: entry.value, cache: { status: 'hit', age_seconds: ageSeconds } };
+      }
+
+      if (ageSeconds < options.ttlSeconds + staleSeconds) {
+        this.revalidate(key, fetcher, options);
+        return { value: entry.value, cache: { status: 'stale', age_seconds: ageSeconds } };
+      }
+    }
+
+    const value = await fetcher();
+    await this.write(key, value, options);
+    return { value, cache: { status: 'miss', age_seconds: 0 } };
+  }
+
+  /**
+   * Store a value fetched elsewhere, e.g. one item from a batch request
+   */
+  async put<T>(key: string, value: T, options: CacheOptions): Promise<void> {
+    await this.write(key, value, options);
+  }
+
+  /**
+   * Read a fresh value without fetching, or null if it is missing or expired
+   */
+  async peek<T>(key: string, options: CacheOptions): Promise<Cached<T> | null> {
+    try {
+      const entry = await this.store.get<T>(key);
+      if (!entry) return null;
+
+      const ageSeconds = Math.max(0, Math.floor((Date.now() - entry.storedAt) / 1000));
+      if (ageSeconds >= options.ttlSeconds) return null;
+
+      return { value: entry.value, cache: { status: 'hit', age_seconds: ageSeconds } };
+    } catch (error) {
+      logger.warn('Cache read failed', { key, error });
+      return null;
+    }
+  }
+
+  private async write<T>(key: string, value: T, options: CacheOptions): Promise<void> {
+    try {
+      await this.store.set(key, { value, storedAt: Date.now() }, options.ttlSeconds + (options.staleSeconds ?? 0));
+    } catch (error) {
+      logger.warn('Cache write failed', { key, error });
+    }
+  }
+
+  private revalidate<T>(key: string, fetcher: () => Promise<T>, options: CacheOptions): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    fetcher()
+      .then(value => this.write(key, value, options))
+      .catch(error => logger.warn('Cache revalidation failed', { key, error }))
+      .finally(() => this.revalidating.delete(key));
+  }
+}
+
+export default new CacheService();
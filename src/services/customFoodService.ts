@@ -0,0 +1,215 @@
+import { and, asc, eq, ilike, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { customFoods, type CustomFood } from '../db/schema';
+import {
+  CalorieResponse,
+  CreateCustomFoodRequest,
+  Macronutrients,
+  FoodUnit,
+  PortionInfo,
+  UpdateCustomFoodRequest,
+} from '../types';
+import { calculateNutritionForGrams, calculateTotals, roundToTenth, scaleMacronutrients } from '../utils/nutrition';
+import { convertMassToGrams, convertVolumeToMl, isMassUnit, isVolumeUnit } from '../utils/units';
+import { escapeLikePattern } from '../utils/validation';
+
+class CustomFoodService {
+  /**
+   * Convert a custom food row into the snake_case API shape
+   */
+  formatCustomFood(food: CustomFood) {
+    return {
+      id: food.id,
+      name: food.name,
+      brand: food.brand,
+      serving_size_grams: food.servingSizeGrams,
+      calories_per_serving: food.caloriesPerServing,
+      macronutrients_per_serving: food.macronutrientsPerServing,
+      created_at: food.createdAt.toISOString(),
+      updated_at: food.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Per-100g nutrition derived from the label values
+   */
+  getNutritionPer100g(food: CustomFood): { caloriesPer100g: number; macronutrientsPer100g: Macronutrients } {
+    const factor = 100 / food.servingSizeGrams;
+    return {
+      caloriesPer100g: roundToTenth(food.caloriesPerServing * factor),
+      macronutrientsPer100g: scaleMacronutrients(food.macronutrientsPerServing, factor),
+    };
+  }
+
+  /**
+   * Resolve a quantity of a custom food to grams. Custom foods only have a label serving,
+   * so household units count as one serving and volumes assume the density of water.
+   */
+  resolvePortion(food: CustomFood, quantity: number, unit: FoodUnit): PortionInfo {
+    let gramsPerUnit: number;
+    let source: PortionInfo['source'];
+    let description: string;
+
+    if (isMassUnit(unit)) {
+      gramsPerUnit = convertMassToGrams(1, unit);
+      source = 'unit_conversion';
+      description = `1 ${unit} = ${roundToTenth(gramsPerUnit)} g`;
+    } else if (isVolumeUnit(unit)) {
+      gramsPerUnit = convertVolumeToMl(1, unit);
+      source = 'density_estimate';
+      description = 'No volume data for custom foods, assumed 1 g/ml';
+    } else {
+      gramsPerUnit = food.servingSizeGrams;
+      source = 'label_serving';
+      description = `${unit === 'serving' ? 'Label serving' : `One ${unit} taken as the label serving`} (${food.servingSizeGrams} g)`;
+    }
+
+    return {
+      quantity,
+      unit,
+      grams_per_unit: roundToTenth(gramsPerUnit),
+      total_grams: roundToTenth(gramsPerUnit * quantity),
+      source,
+      description,
+    };
+  }
+
+  /**
+   * Convert a quantity of a custom food to grams
+   */
+  quantityToGrams(food: CustomFood, quantity: number, unit: FoodUnit): number {
+    return this.resolvePortion(food, quantity, unit).total_grams;
+  }
+
+  async list(userId: number, query: string | undefined, limit: number, offset: number): Promise<CustomFood[]> {
+    const conditions: SQL[] = [eq(customFoods.userId, userId)];
+    if (query) conditions.push(ilike(customFoods.name, `%${escapeLikePattern(query)}%`));
+
+    return db
+      .select()
+      .from(customFoods)
+      .where(and(...conditions))
+      .orderBy(asc(customFoods.name), asc(customFoods.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async get(userId: number, id: number): Promise<CustomFood | null> {
+    const [food] = await db
+      .select()
+      .from(customFoods)
+      .where(and(eq(customFoods.id, id), eq(customFoods.userId, userId)))
+      .limit(1);
+
+    return food ?? null;
+  }
+
+  /**
+   * Find a custom food whose name matches the query, ignoring case
+   */
+  async findByName(userId: number, name: string): Promise<CustomFood | null> {
+    const [food] = await db
+      .select()
+      .from(customFoods)
+      .where(and(
+        eq(customFoods.userId, userId),
+        eq(sql`lower(${customFoods.name})`, name.trim().toLowerCase())
+      ))
+      .orderBy(asc(customFoods.id))
+      .limit(1);
+
+    return food ?? null;
+  }
+
+  async create(userId: number, input: CreateCustomFoodRequest): Promise<CustomFood> {
+    const [food] = await db
+      .insert(customFoods)
+      .values({
+        userId,
+        name: input.name,
+        brand: input.brand ?? null,
+        servingSizeGrams: input.serving_size_grams,
+        caloriesPerServing: input.calories_per_serving,
+        macronutrientsPerServing: scaleMacronutrients(input.macronutrients_per_serving, 1),
+      })
+      .returning();
+
+    return food!;
+  }
+
+  async update(userId: number, id: number, input: UpdateCustomFoodRequest): Promise<CustomFood | null> {
+    const changes: Partial<typeof customFoods.$inferInsert> = { updatedAt: new Date() };
+    if (input.name !== undefined) changes.name = input.name;
+    if (input.brand !== undefined) changes.brand = input.brand;
+    if (input.serving_size_grams !== undefined) changes.servingSizeGrams = input.serving_size_grams;
+    if (input.calories_per_serving !== undefined) changes.caloriesPerServing = input.calories_per_serving;
+    if (input.macronutrients_per_serving !== undefined) {
+      changes.macronutrientsPerServing = scaleMacronutrients(input.macronutrients_per_serving, 1);
+    }
+
+    const [food] = await db
+      .update(customFoods)
+      .set(changes)
+      .where(and(eq(customFoods.id, id), eq(customFoods.userId, userId)))
+      .returning();
+
+    return food ?? null;
+  }
+
+  async delete(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(customFoods)
+      .where(and(eq(customFoods.id, id), eq(customFoods.userId, userId)))
+      .returning({ id: customFoods.id });
+
+    return Boolean(deleted);
+  }
+
+  /**
+   * Build a calorie response for a custom food, as /get-calories would for a USDA match
+   */
+  toCalorieResponse(food: CustomFood, dishName: string, quantity: number, unit: FoodUnit = 'serving'): CalorieResponse {
+    const { caloriesPer100g, macronutrientsPer100g } = this.getNutritionPer100g(food);
+    const caloriesPerServing = Math.round(food.caloriesPerServing);
+    const macronutrientsPerServing = scaleMacronutrients(food.macronutrientsPerServing, 1);
+    const portion = this.resolvePortion(food, quantity, unit);
+
+    let servings = quantity;
+    let totals;
+    if (unit === 'serving') {
+      totals = calculateTotals(caloriesPerServing, macronutrientsPerServing, servings);
+    } else {
+      servings = Math.round((portion.total_grams / food.servingSizeGrams) * 100) / 100;
+      const nutrition = calculateNutritionForGrams(caloriesPer100g, macronutrientsPer100g, portion.total_grams);
+      totals = { totalCalories: nutrition.calories, totalMacronutrients: nutrition.macronutrients };
+    }
+    const { totalCalories, totalMacronutrients } = totals;
+
+    return {
+      dish_name: dishName,
+      servings,
+      calories_per_serving: caloriesPerServing,
+      total_calories: totalCalories,
+      macronutrients_per_serving: macronutrientsPerServing,
+      total_macronutrients: totalMacronutrients,
+      source: 'Custom food',
+      ingredient_breakdown: [{
+        name: food.name,
+        calories_per_100g: caloriesPer100g,
+        macronutrients_per_100g: macronutrientsPer100g,
+        serving_size: `${food.servingSizeGrams}g`,
+        ...(food.brand && { brand: food.brand }),
+      }],
+      portion,
+      // Matched by name, ignoring case
+      match: { rule: 'exact', confidence: 1, alternatives: [] },
+      custom_match: {
+        type: 'custom_food',
+        id: food.id,
+        name: food.name,
+      },
+    };
+  }
+}
+
+export default new CustomFoodService();
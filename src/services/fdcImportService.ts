@@ -0,0 +1,388 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { inArray, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { db } from '../db/connection';
+import {
+  fdcFoodNutrients,
+  fdcFoodPortions,
+  fdcFoods,
+  type NewFdcFood,
+  type NewFdcFoodNutrient,
+  type NewFdcFoodPortion,
+} from '../db/schema';
+import { USDAFoodDetails, UsdaDataType } from '../types';
+import { readCsvRows } from '../utils/csv';
+import { CSV_DATA_TYPES, toIsoDate } from '../utils/fdc';
+import logger from '../utils/logger';
+
+export interface FdcImportOptions {
+  // Data types to import; foods of other types in the download are skipped
+  dataTypes: UsdaDataType[];
+  batchSize?: number;
+}
+
+export interface FdcImportSummary {
+  processed: number;
+  imported: number;
+  // Foods already stored with the same or a newer publication date
+  unchanged: number;
+}
+
+interface FdcFoodRecord {
+  food: NewFdcFood;
+  nutrients: NewFdcFoodNutrient[];
+  portions: NewFdcFoodPortion[];
+}
+
+// A food as read from a download, which always carries its publication date
+type DatedFdcFood = NewFdcFood & { publishedDate: string };
+
+// Top-level arrays in the FDC JSON downloads
+const JSON_FOOD_KEYS = ['FoundationFoods', 'SRLegacyFoods', 'SurveyFoods', 'BrandedFoods'];
+
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Reference the incoming value of a column in an upsert
+ */
+const excluded = (column: PgColumn) => sql.raw(`excluded.${column.name}`);
+
+const emptyToNull = (value: string | undefined) => (value ? value : null);
+
+const parseNumber = (value: string | undefined) => {
+  if (!value) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+class FdcImportService {
+  /**
+   * Import one FDC JSON download (Foundation, SR Legacy, FNDDS or Branded).
+   * The whole file is read into memory, so prefer the CSV download for Branded foods.
+   */
+  async importJsonFile(path: string, options: FdcImportOptions): Promise<FdcImportSummary> {
+    const parsed = JSON.parse(await readFile(path, 'utf8')) as Record<string, unknown>;
+    const key = JSON_FOOD_KEYS.find(name => Array.isArray(parsed[name]));
+
+    if (!key) {
+      throw new Error(`${path} is not an FDC JSON download; expected one of ${JSON_FOOD_KEYS.join(', ')}`);
+    }
+
+    const foods = (parsed[key] as USDAFoodDetails[])
+      .filter(details => options.dataTypes.includes(details.dataType as UsdaDataType));
+    const summary: FdcImportSummary = { processed: 0, imported: 0, unchanged: 0 };
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    for (let start = 0; start < foods.length; start += batchSize) {
+      const records = foods.slice(start, start + batchSize).map(details => this.recordFromJson(details));
+      const changed = await this.filterChanged(records.map(record => record.food));
+
+      await this.saveRecords(records.filter(record => changed.has(record.food.fdcId)));
+
+      summary.processed += records.length;
+      summary.imported += changed.size;
+      summary.unchanged += records.length - changed.size;
+      logger.info('FDC JSON import progress', { path, ...summary });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Import an unzipped FDC CSV download. Files are streamed, so the full Branded download fits.
+   * Foods are written first, then branded details, nutrients and portions for the foods that changed.
+   * Publication dates are stored last, so foods left without nutrients by an interrupted import
+   * are picked up again by the next run.
+   */
+  async importCsvDirectory(directory: string, options: FdcImportOptions): Promise<FdcImportSummary> {
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const file = (name: string) => join(directory, name);
+    // Not every download includes categories, measure units or portions
+    const optionalRows = (name: string) => (existsSync(file(name)) ? readCsvRows(file(name)) : []);
+
+    const nutrients = new Map<string, { name: string; number: string; unitName: string }>();
+    for await (const row of readCsvRows(file('nutrient.csv'))) {
+      nutrients.set(row['id'] ?? '', {
+        name: row['name'] ?? '',
+        number: row['nutrient_nbr'] ?? '',
+        unitName: row['unit_name'] ?? '',
+      });
+    }
+
+    const categories = new Map<string, string>();
+    for await (const row of optionalRows('food_category.csv')) {
+      categories.set(row['id'] ?? '', row['description'] ?? '');
+    }
+
+    const measureUnits = new Map<string, string>();
+    for await (const row of optionalRows('measure_unit.csv')) {
+      measureUnits.set(row['id'] ?? '', row['name'] ?? '');
+    }
+
+    // Foods whose nutrients and portions need to be (re)loaded, with the date to store once they are
+    const changedIds = new Map<number, string>();
+    const summary: FdcImportSummary = { processed: 0, imported: 0, unchanged: 0 };
+
+    let foodBatch: DatedFdcFood[] = [];
+    const flushFoods = async () => {
+      const changed = await this.filterChanged(foodBatch);
+      const changedFoods = foodBatch.filter(food => changed.has(food.fdcId));
+      await this.saveRecords(changedFoods.map(food => ({ food: { ...food, publishedDate: null }, nutrients: [], portions: [] })));
+
+      changedFoods.forEach(food => changedIds.set(food.fdcId, food.publishedDate));
+      summary.processed += foodBatch.length;
+      summary.imported += changed.size;
+      summary.unchanged += foodBatch.length - changed.size;
+      foodBatch = [];
+    };
+
+    for await (const row of readCsvRows(file('food.csv'))) {
+      const dataType = CSV_DATA_TYPES[row['data_type'] ?? ''] as UsdaDataType | undefined;
+      if (!dataType || !options.dataTypes.includes(dataType)) continue;
+
+      foodBatch.push({
+        fdcId: Number(row['fdc_id']),
+        description: row['description'] ?? '',
+        dataType,
+        publishedDate: toIsoDate(row['publication_date']),
+        foodCategory: categories.get(row['food_category_id'] ?? '') ?? null,
+      });
+      if (foodBatch.length >= batchSize) await flushFoods();
+    }
+    if (foodBatch.length > 0) await flushFoods();
+    logger.info('FDC CSV foods imported', { directory, ...summary });
+
+    if (changedIds.size === 0) return summary;
+
+    if (options.dataTypes.includes('Branded')) {
+      await this.importBrandedDetails(file('branded_food.csv'), changedIds, batchSize);
+    }
+
+    let nutrientBatch: NewFdcFoodNutrient[] = [];
+    for await (const row of readCsvRows(file('food_nutrient.csv'))) {
+      const fdcId = Number(row['fdc_id']);
+      const nutrient = nutrients.get(row['nutrient_id'] ?? '');
+      const amount = parseNumber(row['amount']);
+      if (!changedIds.has(fdcId) || !nutrient || amount === null) continue;
+
+      nutrientBatch.push({
+        fdcId,
+        nutrientId: Number(row['nutrient_id']),
+        nutrientName: nutrient.name,
+        nutrientNumber: nutrient.number,
+        unitName: nutrient.unitName,
+        amount,
+      });
+      if (nutrientBatch.length >= batchSize) {
+        await db.insert(fdcFoodNutrients).values(nutrientBatch).onConflictDoNothing();
+        nutrientBatch = [];
+      }
+    }
+    if (nutrientBatch.length > 0) await db.insert(fdcFoodNutrients).values(nutrientBatch).onConflictDoNothing();
+    logger.info('FDC CSV nutrients imported', { directory });
+
+    let portionBatch: NewFdcFoodPortion[] = [];
+    for await (const row of optionalRows('food_portion.csv')) {
+      const fdcId = Number(row['fdc_id']);
+      const gramWeight = parseNumber(row['gram_weight']);
+      if (!changedIds.has(fdcId) || gramWeight === null) continue;
+
+      portionBatch.push({
+        id: Number(row['id']),
+        fdcId,
+        sequenceNumber: parseNumber(row['seq_num']),
+        amount: parseNumber(row['amount']),
+        measureUnitName: emptyToNull(measureUnits.get(row['measure_unit_id'] ?? '')),
+        modifier: emptyToNull(row['modifier']),
+        portionDescription: emptyToNull(row['portion_description']),
+        gramWeight,
+      });
+      if (portionBatch.length >= batchSize) {
+        await db.insert(fdcFoodPortions).values(portionBatch).onConflictDoNothing();
+        portionBatch = [];
+      }
+    }
+    if (portionBatch.length > 0) await db.insert(fdcFoodPortions).values(portionBatch).onConflictDoNothing();
+    logger.info('FDC CSV portions imported', { directory });
+
+    await this.storePublishedDates(changedIds, batchSize);
+
+    return summary;
+  }
+
+  /**
+   * Mark CSV-imported foods as complete by storing their publication dates
+   */
+  private async storePublishedDates(dates: Map<number, string>, batchSize: number): Promise<void> {
+    const entries = [...dates];
+
+    for (let start = 0; start < entries.length; start += batchSize) {
+      const values = entries
+        .slice(start, start + batchSize)
+        .map(([fdcId, publishedDate]) => sql`(${fdcId}::integer, ${publishedDate}::date)`);
+
+      await db.execute(sql`
+        UPDATE ${fdcFoods} SET published_date = v.published_date
+        FROM (VALUES ${sql.join(values, sql`, `)}) AS v(fdc_id, published_date)
+        WHERE ${fdcFoods.fdcId} = v.fdc_id
+      `);
+    }
+  }
+
+  /**
+   * Fill in brand, barcode and label serving details from branded_food.csv
+   */
+  private async importBrandedDetails(path: string, changedIds: Map<number, string>, batchSize: number): Promise<void> {
+    let batch: SQL[] = [];
+    const flush = async () => {
+      await db.execute(sql`
+        UPDATE ${fdcFoods} SET
+          brand_owner = v.brand_owner,
+          brand_name = v.brand_name,
+          gtin_upc = v.gtin_upc,
+          ingredients = v.ingredients,
+          serving_size = v.serving_size,
+          serving_size_unit = v.serving_size_unit,
+          household_serving_full_text = v.household_serving_full_text,
+          food_category = v.food_category
+        FROM (VALUES ${sql.join(batch, sql`, `)}) AS v(
+          fdc_id, brand_owner, brand_name, gtin_upc, ingredients,
+          serving_size, serving_size_unit, household_serving_full_text, food_category
+        )
+        WHERE ${fdcFoods.fdcId} = v.fdc_id
+      `);
+      batch = [];
+    };
+
+    for await (const row of readCsvRows(path)) {
+      const fdcId = Number(row['fdc_id']);
+      if (!changedIds.has(fdcId)) continue;
+
+      batch.push(sql`(
+        ${fdcId}::integer,
+        ${emptyToNull(row['brand_owner'])}::varchar,
+        ${emptyToNull(row['brand_name'])}::varchar,
+        ${emptyToNull(row['gtin_upc'])}::varchar,
+        ${emptyToNull(row['ingredients'])}::text,
+        ${parseNumber(row['serving_size'])}::double precision,
+        ${emptyToNull(row['serving_size_unit'])}::varchar,
+        ${emptyToNull(row['household_serving_fulltext'])}::text,
+        ${emptyToNull(row['branded_food_category'])}::varchar
+      )`);
+      if (batch.length >= batchSize) await flush();
+    }
+    if (batch.length > 0) await flush();
+  }
+
+  /**
+   * IDs of foods that are new, were left incomplete by an interrupted import, or have a newer
+   * publication date than the stored copy
+   */
+  private async filterChanged(foods: DatedFdcFood[]): Promise<Set<number>> {
+    if (foods.length === 0) return new Set();
+
+    const existing = await db
+      .select({ fdcId: fdcFoods.fdcId, publishedDate: fdcFoods.publishedDate })
+      .from(fdcFoods)
+      .where(inArray(fdcFoods.fdcId, foods.map(food => food.fdcId)));
+    const storedDates = new Map(existing.map(row => [row.fdcId, row.publishedDate]));
+
+    return new Set(foods
+      .filter(food => {
+        const stored = storedDates.get(food.fdcId);
+        // ISO dates compare correctly as strings
+        return stored === undefined || stored === null || food.publishedDate > stored;
+      })
+      .map(food => food.fdcId));
+  }
+
+  /**
+   * Upsert foods and replace their nutrients and portions
+   */
+  private async saveRecords(records: FdcFoodRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const ids = records.map(record => record.food.fdcId);
+    const nutrients = records.flatMap(record => record.nutrients);
+    const portions = records.flatMap(record => record.portions);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(fdcFoodNutrients).where(inArray(fdcFoodNutrients.fdcId, ids));
+      await tx.delete(fdcFoodPortions).where(inArray(fdcFoodPortions.fdcId, ids));
+
+      await tx.insert(fdcFoods)
+        .values(records.map(record => record.food))
+        .onConflictDoUpdate({
+          target: fdcFoods.fdcId,
+          set: {
+            description: excluded(fdcFoods.description),
+            dataType: excluded(fdcFoods.dataType),
+            publishedDate: excluded(fdcFoods.publishedDate),
+            foodCategory: excluded(fdcFoods.foodCategory),
+            brandOwner: excluded(fdcFoods.brandOwner),
+            brandName: excluded(fdcFoods.brandName),
+            gtinUpc: excluded(fdcFoods.gtinUpc),
+            ingredients: excluded(fdcFoods.ingredients),
+            servingSize: excluded(fdcFoods.servingSize),
+            servingSizeUnit: excluded(fdcFoods.servingSizeUnit),
+            householdServingFullText: excluded(fdcFoods.householdServingFullText),
+            importedAt: sql`now()`,
+          },
+        });
+
+      if (nutrients.length > 0) {
+        await tx.insert(fdcFoodNutrients).values(nutrients).onConflictDoNothing();
+      }
+      if (portions.length > 0) {
+        await tx.insert(fdcFoodPortions).values(portions).onConflictDoNothing();
+      }
+    });
+  }
+
+  /**
+   * Convert a food from a JSON download into table rows
+   */
+  private recordFromJson(details: USDAFoodDetails): FdcFoodRecord & { food: DatedFdcFood } {
+    const category = details.foodCategory?.description ?? details.brandedFoodCategory;
+
+    return {
+      food: {
+        fdcId: details.fdcId,
+        description: details.description,
+        dataType: details.dataType,
+        publishedDate: toIsoDate(details.publicationDate ?? details.publishedDate),
+        foodCategory: category ?? null,
+        brandOwner: details.brandOwner ?? null,
+        brandName: details.brandName ?? null,
+        gtinUpc: details.gtinUpc ?? null,
+        ingredients: details.ingredients ?? null,
+        servingSize: details.servingSize ?? null,
+        servingSizeUnit: details.servingSizeUnit ?? null,
+        householdServingFullText: details.householdServingFullText ?? null,
+      },
+      nutrients: details.foodNutrients.flatMap(n => (n.nutrient && n.amount !== undefined ? [{
+        fdcId: details.fdcId,
+        nutrientId: n.nutrient.id,
+        nutrientName: n.nutrient.name,
+        nutrientNumber: n.nutrient.number,
+        unitName: n.nutrient.unitName,
+        amount: n.amount,
+      }] : [])),
+      portions: (details.foodPortions ?? []).map(portion => ({
+        id: portion.id,
+        fdcId: details.fdcId,
+        sequenceNumber: portion.sequenceNumber ?? null,
+        amount: portion.amount ?? null,
+        measureUnitName: portion.measureUnit?.name ?? null,
+        measureUnitAbbreviation: portion.measureUnit?.abbreviation ?? null,
+        modifier: portion.modifier ?? null,
+        portionDescription: portion.portionDescription ?? null,
+        gramWeight: portion.gramWeight,
+      })),
+    };
+  }
+}
+
+export default new FdcImportService();
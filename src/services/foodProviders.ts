@@ -0,0 +1,408 @@
+import axios, { AxiosResponse } from 'axios';
+import { and, asc, desc, eq, ilike, inArray, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { fdcFoodNutrients, fdcFoodPortions, fdcFoods, type FdcFood } from '../db/schema';
+import {
+  USDAFood,
+  USDAFoodDetails,
+  USDASearchResponse,
+  UsdaDataType,
+  USDA_DATA_TYPES,
+} from '../types';
+import { env } from '../env';
+import logger from '../utils/logger';
+import { normalizeFoodDetails } from '../utils/fdc';
+import { OpenFoodFactsProvider } from './openFoodFactsProvider';
+import metricsService from './metricsService';
+import { escapeLikePattern } from '../utils/validation';
+
+export interface FoodSearchOptions {
+  pageNumber?: number;
+  pageSize?: number;
+  dataType?: UsdaDataType[];
+  brandOwner?: string;
+}
+
+export type FoodDataSource = 'api' | 'local' | 'local_first';
+
+/**
+ * Where food searches and nutrient lookups are answered from. Every provider returns foods
+ * in the USDAFood shape, with nutrients mapped onto FDC nutrient IDs.
+ */
+export interface FoodProvider {
+  readonly name: string;
+  // Whether results should be kept in the USDA response cache
+  readonly cacheable: boolean;
+  search(query: string, options: FoodSearchOptions): Promise<USDASearchResponse>;
+  // Null when the food doesn't exist
+  getFood(fdcId: number): Promise<USDAFood | null>;
+  // Foods that don't exist are left out
+  getFoods(fdcIds: number[]): Promise<USDAFood[]>;
+  // Null when no branded food has this barcode
+  findByBarcode(gtin: string): Promise<USDAFood | null>;
+}
+
+// USDA stores UPC-A codes as 12 digits and EAN/GTIN as 13-14, so compare without leading zeros
+const normalizeGtin = (code: string) => code.replace(/^0+/, '');
+
+/**
+ * Live USDA FoodData Central API
+ */
+export class UsdaApiFoodProvider implements FoodProvider {
+  readonly name = 'api';
+  readonly cacheable = true;
+  private readonly baseUrl: string = 'https://api.nal.usda.gov/fdc/v1';
+
+  constructor(private readonly apiKey: string) {}
+
+  /**
+   * Send a request to the API, counting it (and any failure other than a missing food) in the daily stats
+   */
+  private async request<T>(send: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+    metricsService.increment('usda_requests');
+    try {
+      return await send();
+    } catch (error) {
+      if (!(axios.isAxiosError(error) && error.response?.status === 404)) {
+        metricsService.increment('usda_errors');
+      }
+      throw error;
+    }
+  }
+
+  async search(query: string, options: FoodSearchOptions): Promise<USDASearchResponse> {
+    try {
+      // Use POST request with JSON body as recommended by USDA API documentation
+      const requestBody = {
+        query: query.trim(),
+        dataType: options.dataType ?? [...USDA_DATA_TYPES],
+        pageSize: Math.min(options.pageSize ?? 25, 200), // API limit
+        pageNumber: options.pageNumber ?? 1,
+        sortBy: 'dataType.keyword',
+        sortOrder: 'asc',
+        ...(options.brandOwner && { brandOwner: options.brandOwner }),
+      };
+
+      const response: AxiosResponse<USDASearchResponse> = await this.request(() => axios.post(
+        `${this.baseUrl}/foods/search`,
+        requestBody,
+        {
+          params: {
+            api_key: this.apiKey,
+          },
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          timeout: 10000, // 10 second timeout
+        }
+      ));
+
+      if (!response.data || !Array.isArray(response.data.foods)) {
+        throw new Error('Invalid response from USDA API');
+      }
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        // Log the error response and data
+        logger.error('Error response from USDA API:', {
+          status: error.response?.status,
+          data: error.response?.data,
+          headers: error.response?.headers
+        });
+        if (error.response?.status === 400) {
+          throw new Error('Invalid search query for USDA API');
+        } else if (error.response?.status === 403) {
+          throw new Error('Invalid USDA API key');
+        } else if (error.code === 'ECONNABORTED') {
+          throw new Error('USDA API request timeout');
+        }
+      }
+      logger.error('Error searching foods:', error);
+      throw new Error('Failed to search foods from USDA API');
+    }
+  }
+
+  async getFood(fdcId: number): Promise<USDAFood | null> {
+    try {
+      const response: AxiosResponse<USDAFoodDetails> = await this.request(() => axios.get(
+        `${this.baseUrl}/food/${fdcId}`,
+        {
+          params: {
+            api_key: this.apiKey,
+          },
+          timeout: 10000, // 10 second timeout
+        }
+      ));
+
+      if (!response.data || !Array.isArray(response.data.foodNutrients)) {
+        throw new Error('Invalid response from USDA API');
+      }
+
+      return normalizeFoodDetails(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          return null;
+        }
+        logger.error('Error response from USDA API:', {
+          status: error.response?.status,
+          data: error.response?.data,
+        });
+        if (error.response?.status === 403) {
+          throw new Error('Invalid USDA API key');
+        } else if (error.code === 'ECONNABORTED') {
+          throw new Error('USDA API request timeout');
+        }
+      }
+      logger.error('Error fetching food details:', error);
+      throw new Error('Failed to fetch food details from USDA API');
+    }
+  }
+
+  async getFoods(fdcIds: number[]): Promise<USDAFood[]> {
+    if (fdcIds.length === 0) return [];
+
+    try {
+      const response: AxiosResponse<USDAFoodDetails[]> = await this.request(() => axios.post(
+        `${this.baseUrl}/foods`,
+        { fdcIds, format: 'full' },
+        {
+          params: {
+            api_key: this.apiKey,
+          },
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          timeout: 10000, // 10 second timeout
+        }
+      ));
+
+      if (!Array.isArray(response.data)) {
+        throw new Error('Invalid response from USDA API');
+      }
+
+      return response.data
+        .filter(details => Array.isArray(details.foodNutrients))
+        .map(details => normalizeFoodDetails(details));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        logger.error('Error response from USDA API:', {
+          status: error.response?.status,
+          data: error.response?.data,
+        });
+        if (error.response?.status === 403) {
+          throw new Error('Invalid USDA API key');
+        } else if (error.code === 'ECONNABORTED') {
+          throw new Error('USDA API request timeout');
+        }
+      }
+      logger.error('Error fetching food details:', error);
+      throw new Error('Failed to fetch food details from USDA API');
+    }
+  }
+
+  async findByBarcode(gtin: string): Promise<USDAFood | null> {
+    const target = normalizeGtin(gtin);
+    const response = await this.search(gtin, { dataType: ['Branded'], pageSize: 50 });
+    const match = response.foods.find(food => food.gtinUpc && normalizeGtin(food.gtinUpc) === target);
+
+    // Search results carry fewer details than the food endpoint
+    return match ? this.getFood(match.fdcId) : null;
+  }
+}
+
+/**
+ * Foods imported from the FDC bulk downloads into the fdc_* tables
+ */
+export class LocalFoodProvider implements FoodProvider {
+  readonly name = 'local';
+  readonly cacheable = false;
+
+  async search(query: string, options: FoodSearchOptions): Promise<USDASearchResponse> {
+    const pageSize = Math.min(options.pageSize ?? 25, 200);
+    const pageNumber = options.pageNumber ?? 1;
+
+    const document = sql`to_tsvector('english', ${fdcFoods.description})`;
+    const tsQuery = sql`plainto_tsquery('english', ${query.trim()})`;
+
+    // Foods a CSV import hasn't finished have no publication date yet
+    const conditions: SQL[] = [sql`${document} @@ ${tsQuery}`, isNotNull(fdcFoods.publishedDate)];
+    if (options.dataType) {
+      conditions.push(inArray(fdcFoods.dataType, options.dataType));
+    }
+    if (options.brandOwner) {
+      conditions.push(ilike(fdcFoods.brandOwner, `%${escapeLikePattern(options.brandOwner.trim())}%`));
+    }
+    const where = and(...conditions);
+
+    const [countRow] = await db.select({ count: sql<number>`count(*)::int` }).from(fdcFoods).where(where);
+    const rows = await db
+      .select()
+      .from(fdcFoods)
+      .where(where)
+      .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), asc(fdcFoods.fdcId))
+      .limit(pageSize)
+      .offset((pageNumber - 1) * pageSize);
+
+    const totalHits = countRow?.count ?? 0;
+    const totalPages = Math.ceil(totalHits / pageSize);
+
+    return {
+      foodSearchCriteria: {
+        query,
+        pageSize,
+        pageNumber,
+        ...(options.dataType && { dataType: options.dataType }),
+        ...(options.brandOwner && { brandOwner: options.brandOwner }),
+      },
+      totalHits,
+      currentPage: pageNumber,
+      totalPages,
+      pageList: Array.from({ length: Math.min(totalPages, 10) }, (_, index) => index + 1),
+      foods: await this.loadFoods(rows),
+    };
+  }
+
+  async getFood(fdcId: number): Promise<USDAFood | null> {
+    const [food] = await this.getFoods([fdcId]);
+    return food ?? null;
+  }
+
+  async getFoods(fdcIds: number[]): Promise<USDAFood[]> {
+    if (fdcIds.length === 0) return [];
+
+    const rows = await db
+      .select()
+      .from(fdcFoods)
+      .where(and(inArray(fdcFoods.fdcId, fdcIds), isNotNull(fdcFoods.publishedDate)));
+    return this.loadFoods(rows);
+  }
+
+  async findByBarcode(gtin: string): Promise<USDAFood | null> {
+    const [row] = await db
+      .select()
+      .from(fdcFoods)
+      .where(and(eq(sql`ltrim(${fdcFoods.gtinUpc}, '0')`, normalizeGtin(gtin)), isNotNull(fdcFoods.publishedDate)))
+      .orderBy(desc(fdcFoods.publishedDate))
+      .limit(1);
+
+    if (!row) return null;
+
+    const [food] = await this.loadFoods([row]);
+    return food ?? null;
+  }
+
+  /**
+   * Attach nutrients and portions to food rows and convert them to the API's food shape
+   */
+  private async loadFoods(rows: FdcFood[]): Promise<USDAFood[]> {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map(row => row.fdcId);
+    const [nutrients, portions] = await Promise.all([
+      db.select().from(fdcFoodNutrients).where(inArray(fdcFoodNutrients.fdcId, ids)),
+      db.select().from(fdcFoodPortions)
+        .where(inArray(fdcFoodPortions.fdcId, ids))
+        .orderBy(asc(fdcFoodPortions.sequenceNumber), asc(fdcFoodPortions.id)),
+    ]);
+
+    return rows.map(row => ({
+      fdcId: row.fdcId,
+      description: row.description,
+      lowercaseDescription: row.description.toLowerCase(),
+      dataType: row.dataType,
+      publishedDate: row.publishedDate ?? '',
+      ...(row.gtinUpc && { gtinUpc: row.gtinUpc }),
+      ...(row.brandOwner && { brandOwner: row.brandOwner }),
+      ...(row.brandName && { brandName: row.brandName }),
+      ...(row.ingredients && { ingredients: row.ingredients }),
+      ...(row.foodCategory && { foodCategory: { id: 0, code: '', description: row.foodCategory } }),
+      ...(row.servingSize && { servingSize: row.servingSize }),
+      ...(row.servingSizeUnit && { servingSizeUnit: row.servingSizeUnit }),
+      ...(row.householdServingFullText && { householdServingFullText: row.householdServingFullText }),
+      foodNutrients: nutrients
+        .filter(nutrient => nutrient.fdcId === row.fdcId)
+        .map(nutrient => ({
+          nutrientId: nutrient.nutrientId,
+          nutrientName: nutrient.nutrientName,
+          nutrientNumber: nutrient.nutrientNumber,
+          unitName: nutrient.unitName,
+          value: nutrient.amount,
+        })),
+      foodMeasures: portions
+        .filter(portion => portion.fdcId === row.fdcId)
+        .map(portion => ({
+          disseminationText: portion.portionDescription ||
+            [portion.amount, portion.measureUnitName, portion.modifier].filter(Boolean).join(' '),
+          gramWeight: portion.gramWeight,
+          id: portion.id,
+          modifier: portion.modifier ?? '',
+          rank: portion.sequenceNumber ?? 0,
+          measureUnitAbbreviation: portion.measureUnitAbbreviation ?? '',
+          measureUnitName: portion.measureUnitName ?? '',
+        })),
+    }));
+  }
+}
+
+/**
+ * Local tables first, falling back to the API for searches with no local results
+ * and foods that haven't been imported
+ */
+export class LocalFirstFoodProvider implements FoodProvider {
+  readonly name = 'local_first';
+  // Not cached: local lookups are cheap, and a cached API fallback would hide foods imported later
+  readonly cacheable = false;
+
+  constructor(
+    private readonly local: LocalFoodProvider,
+    private readonly api: UsdaApiFoodProvider,
+  ) {}
+
+  async search(query: string, options: FoodSearchOptions): Promise<USDASearchResponse> {
+    const response = await this.local.search(query, options);
+    return response.totalHits > 0 ? response : this.api.search(query, options);
+  }
+
+  async getFood(fdcId: number): Promise<USDAFood | null> {
+    return (await this.local.getFood(fdcId)) ?? this.api.getFood(fdcId);
+  }
+
+  async getFoods(fdcIds: number[]): Promise<USDAFood[]> {
+    const foods = await this.local.getFoods(fdcIds);
+    const found = new Set(foods.map(food => food.fdcId));
+    const missingIds = fdcIds.filter(fdcId => !found.has(fdcId));
+
+    return [...foods, ...(await this.api.getFoods(missingIds))];
+  }
+
+  async findByBarcode(gtin: string): Promise<USDAFood | null> {
+    return (await this.local.findByBarcode(gtin)) ?? this.api.findByBarcode(gtin);
+  }
+}
+
+/**
+ * Build the provider for the configured FOOD_DATA_SOURCE
+ */
+export function createFoodProvider(source: FoodDataSource = env.FOOD_DATA_SOURCE ?? 'api'): FoodProvider {
+  switch (source) {
+    case 'local':
+      return new LocalFoodProvider();
+    case 'local_first':
+      return new LocalFirstFoodProvider(new LocalFoodProvider(), new UsdaApiFoodProvider(env.USDA_API_KEY ?? ''));
+    default:
+      return new UsdaApiFoodProvider(env.USDA_API_KEY ?? '');
+  }
+}
+
+/**
+ * Providers searched alongside USDA, e.g. Open Food Facts when it is enabled
+ */
+export function createAdditionalProviders(): FoodProvider[] {
+  const providers: FoodProvider[] = [];
+  if (env.OPEN_FOOD_FACTS_ENABLED === 'true') {
+    providers.push(new OpenFoodFactsProvider());
+  }
+  return providers;
+}
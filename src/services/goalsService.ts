@@ -0,0 +1,206 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { userGoals, type UserGoals } from '../db/schema';
+import {
+  GoalProgress,
+  GoalProgressItem,
+  Macronutrients,
+  SuggestGoalsRequest,
+  UpdateGoalsRequest,
+} from '../types';
+import { roundToTenth } from '../utils/nutrition';
+
+// Energy density of each macronutrient (kcal per gram)
+const KCAL_PER_GRAM = {
+  protein: 4,
+  total_fat: 9,
+  carbohydrates: 4,
+} as const;
+
+const ACTIVITY_MULTIPLIERS = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+} as const;
+
+const WEIGHT_GOAL_ADJUSTMENTS = {
+  lose: -500,
+  maintain: 0,
+  gain: 300,
+} as const;
+
+// Default split for suggested goals, within the AMDR ranges for adults
+const DEFAULT_MACRO_SPLIT = {
+  protein: 25,
+  total_fat: 30,
+  carbohydrates: 45,
+} as const;
+
+// Dietary Guidelines: keep saturated fat under 10% of calories. The same guideline for added
+// sugars isn't suggested, since the sugars limit is compared against total sugars, fruit and dairy included.
+const SATURATED_FAT_PERCENT_OF_CALORIES = 10;
+
+class GoalsService {
+  /**
+   * Get a user's goals, or null if none have been set
+   */
+  async getGoals(userId: number): Promise<UserGoals | null> {
+    const [goals] = await db
+      .select()
+      .from(userGoals)
+      .where(eq(userGoals.userId, userId))
+      .limit(1);
+
+    return goals ?? null;
+  }
+
+  /**
+   * Create or replace a user's goals
+   */
+  async saveGoals(userId: number, input: UpdateGoalsRequest): Promise<UserGoals> {
+    const values = {
+      dailyCalories: input.daily_calories,
+      macroTargetUnit: input.macro_targets?.unit ?? null,
+      proteinTarget: input.macro_targets?.protein ?? null,
+      fatTarget: input.macro_targets?.total_fat ?? null,
+      carbohydratesTarget: input.macro_targets?.carbohydrates ?? null,
+      fiberLimit: input.limits.fiber ?? null,
+      sugarsLimit: input.limits.sugars ?? null,
+      saturatedFatLimit: input.limits.saturated_fat ?? null,
+      updatedAt: new Date(),
+    };
+
+    const [goals] = await db
+      .insert(userGoals)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: userGoals.userId, set: values })
+      .returning();
+
+    return goals!;
+  }
+
+  /**
+   * Resolve macro targets to grams, converting percent splits using the calorie target
+   */
+  getMacroTargetsInGrams(goals: UserGoals) {
+    if (
+      goals.macroTargetUnit === null ||
+      goals.proteinTarget === null ||
+      goals.fatTarget === null ||
+      goals.carbohydratesTarget === null
+    ) {
+      return null;
+    }
+
+    if (goals.macroTargetUnit === 'grams') {
+      return {
+        protein: goals.proteinTarget,
+        total_fat: goals.fatTarget,
+        carbohydrates: goals.carbohydratesTarget,
+      };
+    }
+
+    const gramsFromPercent = (percent: number, kcalPerGram: number) =>
+      roundToTenth((goals.dailyCalories * percent) / 100 / kcalPerGram);
+
+    return {
+      protein: gramsFromPercent(goals.proteinTarget, KCAL_PER_GRAM.protein),
+      total_fat: gramsFromPercent(goals.fatTarget, KCAL_PER_GRAM.total_fat),
+      carbohydrates: gramsFromPercent(goals.carbohydratesTarget, KCAL_PER_GRAM.carbohydrates),
+    };
+  }
+
+  /**
+   * Convert a goals row into the snake_case API shape
+   */
+  formatGoals(goals: UserGoals) {
+    return {
+      daily_calories: goals.dailyCalories,
+      macro_targets: goals.macroTargetUnit === null ? null : {
+        unit: goals.macroTargetUnit,
+        protein: goals.proteinTarget,
+        total_fat: goals.fatTarget,
+        carbohydrates: goals.carbohydratesTarget,
+      },
+      macro_targets_grams: this.getMacroTargetsInGrams(goals),
+      limits: {
+        ...(goals.fiberLimit !== null && { fiber: goals.fiberLimit }),
+        ...(goals.sugarsLimit !== null && { sugars: goals.sugarsLimit }),
+        ...(goals.saturatedFatLimit !== null && { saturated_fat: goals.saturatedFatLimit }),
+      },
+      updated_at: goals.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Compare consumed calories and macronutrients against a user's goals
+   */
+  calculateProgress(goals: UserGoals, calories: number, macros: Macronutrients): GoalProgress {
+    const progressItem = (target: number, consumed: number, round: (value: number) => number): GoalProgressItem => ({
+      target,
+      consumed: round(consumed),
+      remaining: round(target - consumed),
+      percent_of_goal: target > 0 ? roundToTenth((consumed / target) * 100) : 0,
+    });
+
+    const progress: GoalProgress = {
+      calories: progressItem(goals.dailyCalories, calories, Math.round),
+    };
+
+    const macroTargets = this.getMacroTargetsInGrams(goals);
+    if (macroTargets) {
+      progress.macronutrients = {
+        protein: progressItem(macroTargets.protein, macros.protein, roundToTenth),
+        total_fat: progressItem(macroTargets.total_fat, macros.total_fat, roundToTenth),
+        carbohydrates: progressItem(macroTargets.carbohydrates, macros.carbohydrates, roundToTenth),
+      };
+    }
+
+    const limits: NonNullable<GoalProgress['limits']> = {
+      ...(goals.fiberLimit !== null && {
+        fiber: progressItem(goals.fiberLimit, macros.fiber ?? 0, roundToTenth),
+      }),
+      ...(goals.sugarsLimit !== null && {
+        sugars: progressItem(goals.sugarsLimit, macros.sugars ?? 0, roundToTenth),
+      }),
+      ...(goals.saturatedFatLimit !== null && {
+        saturated_fat: progressItem(goals.saturatedFatLimit, macros.saturated_fat ?? 0, roundToTenth),
+      }),
+    };
+    if (Object.keys(limits).length > 0) {
+      progress.limits = limits;
+    }
+
+    return progress;
+  }
+
+  /**
+   * Suggest a calorie target from profile data using the Mifflin-St Jeor equation
+   */
+  suggestGoals(profile: SuggestGoalsRequest) {
+    // BMR = 10 × weight(kg) + 6.25 × height(cm) − 5 × age(y) + s, where s is +5 for males and −161 for females
+    const sexConstant = profile.sex === 'male' ? 5 : -161;
+    const bmr = 10 * profile.weight_kg + 6.25 * profile.height_cm - 5 * profile.age + sexConstant;
+    const tdee = bmr * ACTIVITY_MULTIPLIERS[profile.activity_level];
+    const dailyCalories = Math.round(tdee + WEIGHT_GOAL_ADJUSTMENTS[profile.weight_goal]);
+
+    return {
+      bmr: Math.round(bmr),
+      tdee: Math.round(tdee),
+      suggested_goals: {
+        daily_calories: dailyCalories,
+        macro_targets: {
+          unit: 'percent' as const,
+          ...DEFAULT_MACRO_SPLIT,
+        },
+        limits: {
+          saturated_fat: roundToTenth((dailyCalories * SATURATED_FAT_PERCENT_OF_CALORIES) / 100 / KCAL_PER_GRAM.total_fat),
+        },
+      },
+    };
+  }
+}
+
+export default new GoalsService();
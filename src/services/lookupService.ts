@@ -0,0 +1,252 @@
+import { CalorieResponse, FoodUnit, IngredientBreakdown, MicronutrientAmounts, MicronutrientKey, RecipeIngredient } from '../types';
+import customFoodService from './customFoodService';
+import matchCorrectionService from './matchCorrectionService';
+import metricsService from './metricsService';
+import recipeService from './recipeService';
+import usdaService, { CalculationOptions } from './usdaService';
+import { parseQuantityText } from '../utils/units';
+import { settleWithConcurrency } from '../utils/concurrency';
+import {
+  formatMicronutrients,
+  roundToTenth,
+  scaleMacronutrients,
+  scaleMicronutrientAmounts,
+  sumMacronutrients,
+  sumMicronutrientAmounts,
+} from '../utils/nutrition';
+import logger from '../utils/logger';
+
+export interface FoodAmount {
+  foodName: string;
+  quantity: number;
+  unit: FoodUnit;
+  // Free text the amount was parsed from, when it differs from foodName
+  text?: string;
+}
+
+// Lookups in flight at once for a batch
+const BATCH_CONCURRENCY = 5;
+
+// Recipe ingredients looked up at once
+const RECIPE_CONCURRENCY = 5;
+
+class LookupService {
+  /**
+   * The amount stated explicitly in a request, as servings or as quantity and unit, or null if none was given
+   */
+  resolveExplicitAmount(input: {
+    servings?: number | undefined;
+    quantity?: number | undefined;
+    unit?: FoodUnit | undefined;
+  }): Pick<FoodAmount, 'quantity' | 'unit'> | null {
+    if (input.servings !== undefined) {
+      return { quantity: input.servings, unit: 'serving' };
+    }
+
+    if (input.quantity !== undefined || input.unit !== undefined) {
+      return { quantity: input.quantity ?? 1, unit: input.unit ?? 'serving' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Work out the food and amount from a request: explicit servings, explicit quantity and unit,
+   * or free text such as "2 tbsp peanut butter". Defaults to one serving.
+   */
+  resolveAmount(input: {
+    dish_name: string;
+    servings?: number | undefined;
+    quantity?: number | undefined;
+    unit?: FoodUnit | undefined;
+  }): FoodAmount {
+    const explicit = this.resolveExplicitAmount(input);
+    if (explicit) {
+      return { foodName: input.dish_name, ...explicit };
+    }
+
+    const parsed = parseQuantityText(input.dish_name);
+    if (parsed) {
+      return { ...parsed, text: input.dish_name };
+    }
+
+    return { foodName: input.dish_name, quantity: 1, unit: 'serving' };
+  }
+
+  /**
+   * Calculate calories for a dish, preferring the user's own foods and recipes over USDA matches
+   */
+  async calculateCalories(userId: number, amount: FoodAmount, options: CalculationOptions = {}): Promise<CalorieResponse> {
+    const { foodName, quantity, unit, text } = amount;
+    metricsService.increment('lookups');
+
+    // "Half and half" or "a la king" may be the user's own food, which beats reading an amount into it
+    if (text && text !== foodName) {
+      const wholeFood = await customFoodService.findByName(userId, text);
+      if (wholeFood) {
+        return customFoodService.toCalorieResponse(wholeFood, text, 1, 'serving');
+      }
+
+      const wholeRecipe = await recipeService.findByName(userId, text);
+      if (wholeRecipe) {
+        return recipeService.toCalorieResponse(wholeRecipe, text, 1, 'serving');
+      }
+    }
+
+    const customFood = await customFoodService.findByName(userId, foodName);
+    if (customFood) {
+      return customFoodService.toCalorieResponse(customFood, foodName, quantity, unit);
+    }
+
+    const recipe = await recipeService.findByName(userId, foodName);
+    if (recipe) {
+      return recipeService.toCalorieResponse(recipe, foodName, quantity, unit);
+    }
+
+    // A food the user (or enough other users) picked for this query beats fuzzy matching
+    const correction = await matchCorrectionService.findForQuery(userId, foodName);
+    if (correction) {
+      try {
+        const response = await usdaService.calculateCaloriesById(correction.fdcId, quantity, unit, options);
+        return {
+          ...response,
+          dish_name: foodName,
+          match: { rule: correction.rule, confidence: correction.rule === 'correction' ? 1 : 0.9, alternatives: [] },
+        };
+      } catch (error) {
+        logger.warn('Corrected food lookup failed, falling back to matching', {
+          userId,
+          query: foodName,
+          fdcId: correction.fdcId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    // Custom foods and recipes only store macronutrients, so options apply to USDA matches
+    return usdaService.calculateCalories(foodName, quantity, unit, options);
+  }
+
+  /**
+   * Calculate calories for an exact USDA food, counted in the lookup stats like a dish lookup
+   */
+  async calculateCaloriesById(fdcId: number, amount: Pick<FoodAmount, 'quantity' | 'unit'>, options: CalculationOptions = {}): Promise<CalorieResponse> {
+    metricsService.increment('lookups');
+    return usdaService.calculateCaloriesById(fdcId, amount.quantity, amount.unit, options);
+  }
+
+  /**
+   * Calculate calories for several dishes with a bounded number of lookups in flight.
+   * Identical dishes and amounts are looked up once. Results keep the input order.
+   */
+  async calculateBatch(
+    userId: number,
+    amounts: FoodAmount[],
+    options: CalculationOptions = {}
+  ): Promise<PromiseSettledResult<CalorieResponse>[]> {
+    const keyOf = ({ foodName, quantity, unit, text }: FoodAmount) =>
+      `${foodName.trim().toLowerCase().replace(/\s+/g, ' ')}|${quantity}|${unit}|${text ?? ''}`;
+
+    const unique = new Map<string, FoodAmount>();
+    for (const amount of amounts) {
+      if (!unique.has(keyOf(amount))) unique.set(keyOf(amount), amount);
+    }
+
+    const keys = [...unique.keys()];
+    const settled = await settleWithConcurrency(keys, BATCH_CONCURRENCY, (key) =>
+      this.calculateCalories(userId, unique.get(key)!, options)
+    );
+    const resultsByKey = new Map(keys.map((key, index) => [key, settled[index]!]));
+
+    return amounts.map(amount => resultsByKey.get(keyOf(amount))!);
+  }
+
+  /**
+   * Calculate nutrition for an ad hoc recipe. Each ingredient is looked up like a dish, so the
+   * user's own foods and recipes are used before USDA matches. Any ingredient that can't be
+   * matched fails the recipe.
+   */
+  async calculateRecipe(
+    userId: number,
+    recipeName: string,
+    ingredients: RecipeIngredient[],
+    servings: number,
+    options: CalculationOptions = {}
+  ): Promise<CalorieResponse> {
+    // Ingredients are independent, so look them up in parallel, a few at a time
+    const settled = await settleWithConcurrency(ingredients, RECIPE_CONCURRENCY, (ingredient) =>
+      this.calculateCalories(userId, { foodName: ingredient.name, quantity: ingredient.quantity, unit: ingredient.unit }, options)
+    );
+    const results = settled.map(outcome => {
+      if (outcome.status === 'rejected') throw outcome.reason;
+      return outcome.value;
+    });
+
+    const ingredientBreakdown = results.map((result, index) => this.buildIngredientRow(ingredients[index]!, result));
+    const totalCalories = ingredientBreakdown.reduce((total, row) => total + (row.calories ?? 0), 0);
+    const totalMacronutrients = sumMacronutrients(
+      ingredientBreakdown.flatMap(row => (row.macronutrients ? [row.macronutrients] : []))
+    );
+
+    let micronutrients: Pick<CalorieResponse, 'micronutrients_per_serving' | 'total_micronutrients'> = {};
+    if (options.includeMicronutrients) {
+      // The user's own foods and recipes have no micronutrient data, so they add nothing here
+      const totalAmounts = sumMicronutrientAmounts(results.map(result => {
+        const amounts: MicronutrientAmounts = {};
+        for (const [key, value] of Object.entries(result.total_micronutrients ?? {})) {
+          amounts[key as MicronutrientKey] = value.amount;
+        }
+        return amounts;
+      }));
+      micronutrients = {
+        micronutrients_per_serving: formatMicronutrients(scaleMicronutrientAmounts(totalAmounts, 1 / servings)),
+        total_micronutrients: formatMicronutrients(totalAmounts),
+      };
+    }
+
+    return {
+      dish_name: recipeName,
+      servings,
+      calories_per_serving: Math.round(totalCalories / servings),
+      total_calories: totalCalories,
+      macronutrients_per_serving: scaleMacronutrients(totalMacronutrients, 1 / servings),
+      total_macronutrients: totalMacronutrients,
+      ...micronutrients,
+      // Ingredients can come from different providers and from the user's own foods
+      source: [...new Set(results.map(result => result.source))].join(', '),
+      ingredient_breakdown: ingredientBreakdown,
+    };
+  }
+
+  /**
+   * Summarise one ingredient's lookup as a recipe breakdown row
+   */
+  private buildIngredientRow(ingredient: RecipeIngredient, result: CalorieResponse): IngredientBreakdown {
+    const grams = result.portion?.total_grams;
+    // A matched food or custom food describes itself in its first row; a saved recipe lists its own ingredients
+    const food = result.custom_match?.type === 'recipe' ? undefined : result.ingredient_breakdown?.[0];
+
+    return {
+      name: food?.name ?? result.custom_match?.name ?? result.dish_name,
+      calories_per_100g: food?.calories_per_100g ?? (grams ? roundToTenth((result.total_calories * 100) / grams) : 0),
+      ...(food?.macronutrients_per_100g && { macronutrients_per_100g: food.macronutrients_per_100g }),
+      ...(food?.data_type && { data_type: food.data_type }),
+      ...(food?.fdc_id !== undefined && { fdc_id: food.fdc_id }),
+      ...(food?.provider && { provider: food.provider }),
+      ...(food?.brand && { brand: food.brand }),
+      ...(food?.category && { category: food.category }),
+      query: ingredient.name,
+      quantity: ingredient.quantity,
+      unit: ingredient.unit,
+      ...(grams !== undefined && { grams }),
+      calories: result.total_calories,
+      ...(result.total_macronutrients && { macronutrients: result.total_macronutrients }),
+      ...(result.total_micronutrients && { micronutrients: result.total_micronutrients }),
+      ...(result.portion && { portion: result.portion }),
+      ...(result.match && { match: result.match }),
+      ...(result.custom_match && { custom_match: result.custom_match }),
+    };
+  }
+}
+
+export default new LookupService();
@@ -0,0 +1,145 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+import { env } from '../env';
+import logger from '../utils/logger';
+import { generateToken } from '../utils/tokens';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivery backend for outgoing email
+ */
+export interface Mailer {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Sends mail through an SMTP server
+ */
+export class SmtpMailer implements Mailer {
+  private readonly transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.password } }),
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Writes each message to its own JSON file, so tests and local dev can read the links they contain
+ */
+export class FileMailer implements Mailer {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    // Timestamp first so the files sort in sending order
+    const fileName = `${Date.now()}-${generateToken().slice(0, 8)}.json`;
+    const sentAt = new Date().toISOString();
+    await writeFile(path.join(this.directory, fileName), JSON.stringify({ ...message, sent_at: sentAt }, null, 2));
+  }
+}
+
+/**
+ * Logs messages instead of sending them
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}`, { text: message.text });
+  }
+}
+
+class MailService {
+  private readonly mailer: Mailer;
+
+  constructor() {
+    // The env schema isn't applied under NODE_ENV=test, so anything but smtp or file logs to the console
+    if (env.MAIL_TRANSPORT === 'smtp') {
+      this.mailer = new SmtpMailer({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE === 'true',
+        ...(env.SMTP_USER && { user: env.SMTP_USER }),
+        ...(env.SMTP_PASSWORD && { password: env.SMTP_PASSWORD }),
+      });
+    } else if (env.MAIL_TRANSPORT === 'file') {
+      this.mailer = new FileMailer(env.MAIL_FILE_DIR ?? 'tmp/mail');
+    } else {
+      this.mailer = new ConsoleMailer();
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.mailer.send({ ...message, from: env.MAIL_FROM ?? 'Calorie Counter <no-reply@localhost>' });
+  }
+
+  async sendVerificationEmail(to: string, firstName: string, token: string, ttlHours: number): Promise<void> {
+    const link = `${this.appUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'Please confirm your email address by opening this link:',
+        link,
+        '',
+        `The link expires in ${ttlHours} hours. If you didn't create an account, you can ignore this email.`,
+      ].join('\n'),
+    });
+  }
+
+  async sendPasswordResetEmail(to: string, firstName: string, token: string, ttlMinutes: number): Promise<void> {
+    const link = `${this.appUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'Someone asked to reset the password of your account. Choose a new password here:',
+        link,
+        '',
+        `The link expires in ${ttlMinutes} minutes and works once. If you didn't ask for a reset, you can ignore this email.`,
+      ].join('\n'),
+    });
+  }
+
+  async sendShareInviteEmail(to: string, firstName: string, clientName: string, scopes: string[]): Promise<void> {
+    const link = `${this.appUrl()}/clients`;
+
+    await this.send({
+      to,
+      subject: `${clientName} wants to share their food log with you`,
+      text: [
+        `Hi ${firstName},`,
+        '',
+        `${clientName} has invited you to read their ${scopes.join(', ')}. Accept or decline the invitation here:`,
+        link,
+        '',
+        "If you don't know them, you can decline or ignore this email.",
+      ].join('\n'),
+    });
+  }
+
+  private appUrl(): string {
+    return String(env.APP_URL ?? 'http://localhost:3000').replace(/\/+$/, '');
+  }
+}
+
+export default new MailService();
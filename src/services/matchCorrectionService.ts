@@ -0,0 +1,148 @@
+import { and, count, countDistinct, desc, eq, inArray, max, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { matchCorrections, type MatchCorrection } from '../db/schema';
+import { env } from '../env';
+
+export interface AppliedCorrection {
+  fdcId: number;
+  rule: 'correction' | 'global_correction';
+}
+
+class MatchCorrectionService {
+  /**
+   * Queries are compared trimmed, in lower case and with single spaces
+   */
+  normalizeQuery(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Convert a correction row into the snake_case API shape
+   */
+  formatCorrection(correction: MatchCorrection) {
+    return {
+      id: correction.id,
+      query: correction.query,
+      fdc_id: correction.fdcId,
+      food_name: correction.foodName,
+      created_at: correction.createdAt.toISOString(),
+      updated_at: correction.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Save the food a user meant for a query, replacing any earlier correction of the same query
+   */
+  async save(userId: number, query: string, fdcId: number, foodName: string): Promise<MatchCorrection> {
+    const [correction] = await db
+      .insert(matchCorrections)
+      .values({ userId, query: this.normalizeQuery(query), fdcId, foodName })
+      .onConflictDoUpdate({
+        target: [matchCorrections.userId, matchCorrections.query],
+        set: { fdcId, foodName, updatedAt: new Date() },
+      })
+      .returning();
+
+    return correction!;
+  }
+
+  async list(userId: number, limit: number, offset: number): Promise<MatchCorrection[]> {
+    return db
+      .select()
+      .from(matchCorrections)
+      .where(eq(matchCorrections.userId, userId))
+      .orderBy(desc(matchCorrections.updatedAt), desc(matchCorrections.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async delete(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(matchCorrections)
+      .where(and(eq(matchCorrections.id, id), eq(matchCorrections.userId, userId)))
+      .returning({ id: matchCorrections.id });
+
+    return Boolean(deleted);
+  }
+
+  /**
+   * The food to use for a query: the user's own correction, or else the food enough other users
+   * agreed on (when MATCH_CORRECTION_GLOBAL_MIN_USERS is set). Null when matching should decide.
+   */
+  async findForQuery(userId: number, query: string): Promise<AppliedCorrection | null> {
+    const normalizedQuery = this.normalizeQuery(query);
+
+    const [own] = await db
+      .select({ fdcId: matchCorrections.fdcId })
+      .from(matchCorrections)
+      .where(and(eq(matchCorrections.userId, userId), eq(matchCorrections.query, normalizedQuery)))
+      .limit(1);
+
+    if (own) {
+      return { fdcId: own.fdcId, rule: 'correction' };
+    }
+
+    const minUsers: number = env.MATCH_CORRECTION_GLOBAL_MIN_USERS ?? 0;
+    if (minUsers === 0) return null;
+
+    const [consensus] = await db
+      .select({ fdcId: matchCorrections.fdcId, users: count() })
+      .from(matchCorrections)
+      .where(eq(matchCorrections.query, normalizedQuery))
+      .groupBy(matchCorrections.fdcId)
+      .orderBy(desc(count()), matchCorrections.fdcId)
+      .limit(1);
+
+    return consensus && consensus.users >= minUsers ? { fdcId: consensus.fdcId, rule: 'global_correction' } : null;
+  }
+
+  /**
+   * Queries corrected by the most users, with the food they picked most often, to guide matcher improvements
+   */
+  async listMostCorrected(limit: number, offset: number) {
+    const queries = await db
+      .select({
+        query: matchCorrections.query,
+        corrections: count(),
+        distinctFoods: countDistinct(matchCorrections.fdcId),
+        lastCorrectedAt: max(matchCorrections.updatedAt),
+      })
+      .from(matchCorrections)
+      .groupBy(matchCorrections.query)
+      .orderBy(desc(count()), desc(max(matchCorrections.updatedAt)), matchCorrections.query)
+      .limit(limit)
+      .offset(offset);
+
+    if (queries.length === 0) return [];
+
+    const foods = await db
+      .select({
+        query: matchCorrections.query,
+        fdcId: matchCorrections.fdcId,
+        foodName: sql<string>`max(${matchCorrections.foodName})`,
+        corrections: count(),
+      })
+      .from(matchCorrections)
+      .where(inArray(matchCorrections.query, queries.map(row => row.query)))
+      .groupBy(matchCorrections.query, matchCorrections.fdcId)
+      .orderBy(desc(count()), matchCorrections.fdcId);
+
+    return queries.map(row => {
+      // Ordered by count, so the first food for a query is its most common correction
+      const topFood = foods.find(food => food.query === row.query)!;
+      return {
+        query: row.query,
+        corrections: row.corrections,
+        distinct_foods: row.distinctFoods,
+        top_food: {
+          fdc_id: topFood.fdcId,
+          name: topFood.foodName,
+          corrections: topFood.corrections,
+        },
+        last_corrected_at: row.lastCorrectedAt?.toISOString() ?? null,
+      };
+    });
+  }
+}
+
+export default new MatchCorrectionService();
@@ -0,0 +1,120 @@
+import {
+  CalorieResponse,
+  IngredientBreakdown,
+  ParsedMealItem,
+  ParseMealResponse,
+  UnmatchedMealItem,
+} from '../types';
+import lookupService from './lookupService';
+import logger from '../utils/logger';
+import { roundToTenth, sumMacronutrients } from '../utils/nutrition';
+import { settleWithConcurrency } from '../utils/concurrency';
+
+// Meal items looked up at once
+const MEAL_CONCURRENCY = 5;
+
+/**
+ * Lower-case words of a food name, with simple plurals folded ("eggs" -> "egg")
+ */
+function tokenize(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1)
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+class MealService {
+  /**
+   * Share of the phrase's words that appear in the matched food name (0-1).
+   * The user's own foods and recipes are matched by exact name, so they score 1.
+   */
+  private scoreMatch(foodName: string, result: CalorieResponse): number {
+    if (result.custom_match) return 1;
+
+    const queryWords = tokenize(foodName);
+    if (queryWords.length === 0) return 0;
+
+    const matchedWords = new Set(tokenize(result.matched_food?.name ?? result.dish_name));
+    const found = queryWords.filter(word => matchedWords.has(word)).length;
+    return found / queryWords.length;
+  }
+
+  /**
+   * Summarise one item's result as a single breakdown row
+   */
+  private buildItemBreakdown(item: ParsedMealItem, result: CalorieResponse): IngredientBreakdown {
+    const grams = result.portion?.total_grams;
+    const confidence = Math.round(item.parse_confidence * this.scoreMatch(item.food_name, result) * 100) / 100;
+
+    return {
+      name: result.matched_food?.name ?? result.custom_match?.name ?? result.dish_name,
+      calories_per_100g: grams ? roundToTenth((result.total_calories * 100) / grams) : 0,
+      ...(result.matched_food && { provider: result.matched_food.provider, data_type: result.matched_food.data_type }),
+      ...(result.matched_food?.fdc_id && { fdc_id: result.matched_food.fdc_id }),
+      query: item.text,
+      quantity: item.quantity,
+      unit: item.unit,
+      ...(grams !== undefined && { grams }),
+      calories: result.total_calories,
+      ...(result.total_macronutrients && { macronutrients: result.total_macronutrients }),
+      ...(result.portion && { portion: result.portion }),
+      confidence,
+    };
+  }
+
+  /**
+   * Look up each item parsed from a meal description and total the meal.
+   * Items that can't be matched are reported rather than failing the whole meal.
+   */
+  async calculateMeal(userId: number, text: string, items: ParsedMealItem[]): Promise<ParseMealResponse> {
+    // Items are independent, so look them up in parallel, a few at a time
+    const settled = await settleWithConcurrency(items, MEAL_CONCURRENCY, async (item) => {
+      try {
+        const result = await lookupService.calculateCalories(userId, {
+          foodName: item.food_name,
+          quantity: item.quantity,
+          unit: item.unit,
+          text: item.text,
+        });
+        return { item, result };
+      } catch (error) {
+        logger.warn('Meal item could not be matched', { text: item.text, error });
+        return { item, reason: error instanceof Error ? error.message : 'Unable to calculate calories' };
+      }
+    });
+    // Failures are caught per item above, so every lookup is fulfilled
+    const results = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+
+    const ingredientBreakdown: IngredientBreakdown[] = [];
+    const unmatchedItems: UnmatchedMealItem[] = [];
+    for (const entry of results) {
+      if ('result' in entry) {
+        ingredientBreakdown.push(this.buildItemBreakdown(entry.item, entry.result));
+      } else {
+        unmatchedItems.push({ text: entry.item.text, food_name: entry.item.food_name, reason: entry.reason });
+      }
+    }
+
+    const totalCalories = ingredientBreakdown.reduce((total, row) => total + (row.calories ?? 0), 0);
+    const totalMacronutrients = sumMacronutrients(
+      ingredientBreakdown.flatMap(row => (row.macronutrients ? [row.macronutrients] : []))
+    );
+
+    // The whole meal is one serving
+    return {
+      dish_name: text,
+      servings: 1,
+      calories_per_serving: totalCalories,
+      total_calories: totalCalories,
+      macronutrients_per_serving: totalMacronutrients,
+      total_macronutrients: totalMacronutrients,
+      source: 'Parsed meal',
+      ingredient_breakdown: ingredientBreakdown,
+      items,
+      unmatched_items: unmatchedItems,
+    };
+  }
+}
+
+export default new MealService();
@@ -0,0 +1,44 @@
+import { and, asc, gte, inArray, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { dailyMetrics } from '../db/schema';
+import { DailyMetric } from '../types';
+import logger from '../utils/logger';
+
+class MetricsService {
+  /**
+   * Add to today's (UTC) count of a metric. Runs in the background and never fails the caller;
+   * a lost increment only makes the stats slightly low.
+   */
+  increment(metric: DailyMetric, by: number = 1): void {
+    const day = new Date().toISOString().slice(0, 10);
+
+    db.insert(dailyMetrics)
+      .values({ day, metric, count: by })
+      .onConflictDoUpdate({
+        target: [dailyMetrics.day, dailyMetrics.metric],
+        set: { count: sql`${dailyMetrics.count} + ${by}` },
+      })
+      .catch((error: unknown) => {
+        logger.warn('Failed to record metric', { metric, error });
+      });
+  }
+
+  /**
+   * Counts per day since the given UTC date (YYYY-MM-DD), keyed by metric. Days without any are left out.
+   */
+  async getDailyCounts(metrics: DailyMetric[], since: string): Promise<Map<DailyMetric, Map<string, number>>> {
+    const rows = await db
+      .select()
+      .from(dailyMetrics)
+      .where(and(inArray(dailyMetrics.metric, metrics), gte(dailyMetrics.day, since)))
+      .orderBy(asc(dailyMetrics.day));
+
+    const counts = new Map(metrics.map((metric) => [metric, new Map<string, number>()]));
+    for (const row of rows) {
+      counts.get(row.metric)?.set(row.day, row.count);
+    }
+    return counts;
+  }
+}
+
+export default new MetricsService();
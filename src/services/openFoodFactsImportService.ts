@@ -0,0 +1,186 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { sql } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { db } from '../db/connection';
+import { offProducts, type NewOffProduct } from '../db/schema';
+import { ENERGY_NUTRIENT_IDS, MACRONUTRIENT_IDS } from '../types';
+import logger from '../utils/logger';
+
+export interface OpenFoodFactsImportOptions {
+  batchSize?: number;
+}
+
+export interface OpenFoodFactsImportSummary {
+  processed: number;
+  imported: number;
+  // Products already stored and not modified since
+  unchanged: number;
+  // Lines that aren't usable products: no barcode, name or energy value, or truncated JSON
+  skipped: number;
+}
+
+interface NutrimentMapping {
+  field: string;
+  nutrientId: number;
+  nutrientNumber: string;
+  nutrientName: string;
+  unitName: string;
+  // Multiplier from the Open Food Facts unit to the FDC unit
+  factor?: number;
+}
+
+// Open Food Facts nutriment fields (per 100g) and the FDC nutrients they map to
+const NUTRIMENT_MAP: NutrimentMapping[] = [
+  { field: 'energy-kcal_100g', nutrientId: ENERGY_NUTRIENT_IDS.ENERGY_KCAL, nutrientNumber: '208', nutrientName: 'Energy', unitName: 'KCAL' },
+  { field: 'energy-kj_100g', nutrientId: ENERGY_NUTRIENT_IDS.ENERGY_KJ, nutrientNumber: '268', nutrientName: 'Energy', unitName: 'kJ' },
+  { field: 'proteins_100g', nutrientId: MACRONUTRIENT_IDS.PROTEIN, nutrientNumber: '203', nutrientName: 'Protein', unitName: 'G' },
+  { field: 'fat_100g', nutrientId: MACRONUTRIENT_IDS.TOTAL_FAT, nutrientNumber: '204', nutrientName: 'Total lipid (fat)', unitName: 'G' },
+  { field: 'carbohydrates_100g', nutrientId: MACRONUTRIENT_IDS.CARBS, nutrientNumber: '205', nutrientName: 'Carbohydrate, by difference', unitName: 'G' },
+  { field: 'fiber_100g', nutrientId: MACRONUTRIENT_IDS.FIBER, nutrientNumber: '291', nutrientName: 'Fiber, total dietary', unitName: 'G' },
+  { field: 'sugars_100g', nutrientId: MACRONUTRIENT_IDS.SUGARS, nutrientNumber: '269', nutrientName: 'Sugars, total including NLEA', unitName: 'G' },
+  { field: 'saturated-fat_100g', nutrientId: MACRONUTRIENT_IDS.SATURATED_FAT, nutrientNumber: '606', nutrientName: 'Fatty acids, total saturated', unitName: 'G' },
+  { field: 'trans-fat_100g', nutrientId: 1257, nutrientNumber: '605', nutrientName: 'Fatty acids, total trans', unitName: 'G' },
+  { field: 'added-sugars_100g', nutrientId: 1235, nutrientNumber: '539', nutrientName: 'Sugars, added', unitName: 'G' },
+  // Open Food Facts stores every amount in grams; FDC uses mg and µg for minerals and vitamins
+  { field: 'sodium_100g', nutrientId: 1093, nutrientNumber: '307', nutrientName: 'Sodium, Na', unitName: 'MG', factor: 1000 },
+  { field: 'potassium_100g', nutrientId: 1092, nutrientNumber: '306', nutrientName: 'Potassium, K', unitName: 'MG', factor: 1000 },
+  { field: 'cholesterol_100g', nutrientId: 1253, nutrientNumber: '601', nutrientName: 'Cholesterol', unitName: 'MG', factor: 1000 },
+  { field: 'calcium_100g', nutrientId: 1087, nutrientNumber: '301', nutrientName: 'Calcium, Ca', unitName: 'MG', factor: 1000 },
+  { field: 'iron_100g', nutrientId: 1089, nutrientNumber: '303', nutrientName: 'Iron, Fe', unitName: 'MG', factor: 1000 },
+  { field: 'vitamin-c_100g', nutrientId: 1162, nutrientNumber: '401', nutrientName: 'Vitamin C, total ascorbic acid', unitName: 'MG', factor: 1000 },
+  { field: 'vitamin-a_100g', nutrientId: 1106, nutrientNumber: '320', nutrientName: 'Vitamin A, RAE', unitName: 'UG', factor: 1e6 },
+  { field: 'vitamin-d_100g', nutrientId: 1114, nutrientNumber: '328', nutrientName: 'Vitamin D (D2 + D3)', unitName: 'UG', factor: 1e6 },
+  { field: 'vitamin-b12_100g', nutrientId: 1178, nutrientNumber: '418', nutrientName: 'Vitamin B-12', unitName: 'UG', factor: 1e6 },
+];
+
+interface OpenFoodFactsProduct {
+  code?: string;
+  product_name?: string;
+  product_name_en?: string;
+  brands?: string;
+  categories?: string;
+  ingredients_text?: string;
+  serving_size?: string;
+  serving_quantity?: number | string;
+  last_modified_t?: number;
+  nutriments?: Record<string, number | string | undefined>;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Reference the incoming value of a column in an upsert
+ */
+const excluded = (column: PgColumn) => sql.raw(`excluded.${column.name}`);
+
+const truncate = (value: string | undefined, length: number) => (value ? value.slice(0, length) : null);
+
+class OpenFoodFactsImportService {
+  /**
+   * Import an Open Food Facts JSONL export into off_products. The file is streamed, so the full
+   * export fits; products edited since the last import are replaced and the rest are left alone.
+   */
+  async importJsonl(path: string, options: OpenFoodFactsImportOptions = {}): Promise<OpenFoodFactsImportSummary> {
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const summary: OpenFoodFactsImportSummary = { processed: 0, imported: 0, unchanged: 0, skipped: 0 };
+    const lines = createInterface({ input: createReadStream(path, { encoding: 'utf8' }), crlfDelay: Infinity });
+
+    // Keyed by barcode, since an upsert can't touch the same row twice
+    let batch = new Map<string, NewOffProduct>();
+    const flush = async () => {
+      const imported = await this.saveProducts([...batch.values()]);
+      summary.imported += imported;
+      summary.unchanged += batch.size - imported;
+      batch = new Map();
+      logger.info('Open Food Facts import progress', { path, ...summary });
+    };
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      summary.processed++;
+
+      let product: NewOffProduct | null = null;
+      try {
+        product = this.toRow(JSON.parse(line) as OpenFoodFactsProduct);
+      } catch {
+        // Exports occasionally contain truncated lines
+      }
+
+      if (!product) {
+        summary.skipped++;
+        continue;
+      }
+
+      batch.set(product.code, product);
+      if (batch.size >= batchSize) await flush();
+    }
+    if (batch.size > 0) await flush();
+
+    return summary;
+  }
+
+  /**
+   * Upsert products, leaving stored ones that haven't been modified since. Returns how many were written.
+   */
+  private async saveProducts(products: NewOffProduct[]): Promise<number> {
+    if (products.length === 0) return 0;
+
+    const written = await db
+      .insert(offProducts)
+      .values(products)
+      .onConflictDoUpdate({
+        target: offProducts.code,
+        set: {
+          name: excluded(offProducts.name),
+          brand: excluded(offProducts.brand),
+          category: excluded(offProducts.category),
+          ingredients: excluded(offProducts.ingredients),
+          servingSize: excluded(offProducts.servingSize),
+          householdServingFullText: excluded(offProducts.householdServingFullText),
+          nutrients: excluded(offProducts.nutrients),
+          lastModifiedAt: excluded(offProducts.lastModifiedAt),
+          importedAt: sql`now()`,
+        },
+        setWhere: sql`${offProducts.lastModifiedAt} is null or ${excluded(offProducts.lastModifiedAt)} > ${offProducts.lastModifiedAt}`,
+      })
+      .returning({ code: offProducts.code });
+
+    return written.length;
+  }
+
+  /**
+   * Convert a product to a table row, or null if it can't be used for calorie lookups
+   */
+  private toRow(product: OpenFoodFactsProduct): NewOffProduct | null {
+    const name = (product.product_name_en || product.product_name || '').trim();
+    const code = product.code?.trim();
+    if (!code || code.length > 50 || !name) return null;
+
+    const nutrients = NUTRIMENT_MAP.flatMap(({ field, factor = 1, ...nutrient }) => {
+      const value = Number(product.nutriments?.[field]);
+      return Number.isFinite(value) && value >= 0 ? [{ ...nutrient, value: value * factor }] : [];
+    });
+    const hasEnergy = nutrients.some(nutrient =>
+      (nutrient.nutrientId === ENERGY_NUTRIENT_IDS.ENERGY_KCAL || nutrient.nutrientId === ENERGY_NUTRIENT_IDS.ENERGY_KJ) &&
+      nutrient.value > 0
+    );
+    if (!hasEnergy) return null;
+
+    const servingGrams = Number(product.serving_quantity);
+
+    return {
+      code,
+      name,
+      brand: truncate(product.brands?.split(',')[0]?.trim(), 255),
+      category: truncate(product.categories?.split(',').pop()?.trim(), 255),
+      ingredients: product.ingredients_text || null,
+      servingSize: servingGrams > 0 ? servingGrams : null,
+      householdServingFullText: product.serving_size || null,
+      nutrients,
+      lastModifiedAt: product.last_modified_t ? new Date(product.last_modified_t * 1000) : null,
+    };
+  }
+}
+
+export default new OpenFoodFactsImportService();
@@ -0,0 +1,95 @@
+import { and, asc, eq, ilike, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { offProducts, type OffProduct } from '../db/schema';
+import { USDAFood, USDASearchResponse } from '../types';
+import { escapeLikePattern } from '../utils/validation';
+import type { FoodProvider, FoodSearchOptions } from './foodProviders';
+
+/**
+ * Packaged foods from an Open Food Facts export, imported into off_products by `pnpm off:import`.
+ * Products are identified by barcode, so lookups by FDC ID always come back empty.
+ */
+export class OpenFoodFactsProvider implements FoodProvider {
+  readonly name = 'open_food_facts';
+  readonly cacheable = false;
+
+  async search(query: string, options: FoodSearchOptions): Promise<USDASearchResponse> {
+    const pageSize = Math.min(options.pageSize ?? 25, 200);
+    const pageNumber = options.pageNumber ?? 1;
+    const foodSearchCriteria = { query, pageSize, pageNumber };
+
+    // Products are only offered as branded foods
+    if (options.dataType && !options.dataType.includes('Branded')) {
+      return { foodSearchCriteria, totalHits: 0, currentPage: pageNumber, totalPages: 0, pageList: [], foods: [] };
+    }
+
+    // Every query word must appear in the name or brand
+    const document = sql`to_tsvector('simple', ${offProducts.name} || ' ' || coalesce(${offProducts.brand}, ''))`;
+    const conditions: SQL[] = [sql`${document} @@ plainto_tsquery('simple', ${query.trim()})`];
+    if (options.brandOwner) {
+      conditions.push(ilike(offProducts.brand, `%${escapeLikePattern(options.brandOwner.trim())}%`));
+    }
+    const where = and(...conditions);
+
+    const [countRow] = await db.select({ count: sql<number>`count(*)::int` }).from(offProducts).where(where);
+    const rows = await db
+      .select()
+      .from(offProducts)
+      .where(where)
+      // Shorter names are usually the more generic product
+      .orderBy(asc(sql`length(${offProducts.name})`), asc(offProducts.code))
+      .limit(pageSize)
+      .offset((pageNumber - 1) * pageSize);
+
+    const totalHits = countRow?.count ?? 0;
+    const totalPages = Math.ceil(totalHits / pageSize);
+
+    return {
+      foodSearchCriteria,
+      totalHits,
+      currentPage: pageNumber,
+      totalPages,
+      pageList: Array.from({ length: Math.min(totalPages, 10) }, (_, index) => index + 1),
+      foods: rows.map(row => this.toFood(row)),
+    };
+  }
+
+  async getFood(): Promise<USDAFood | null> {
+    return null;
+  }
+
+  async getFoods(): Promise<USDAFood[]> {
+    return [];
+  }
+
+  async findByBarcode(gtin: string): Promise<USDAFood | null> {
+    const [row] = await db
+      .select()
+      .from(offProducts)
+      .where(eq(sql`ltrim(${offProducts.code}, '0')`, gtin.replace(/^0+/, '')))
+      .limit(1);
+
+    return row ? this.toFood(row) : null;
+  }
+
+  /**
+   * Convert a stored product to the shared food shape
+   */
+  private toFood(row: OffProduct): USDAFood {
+    return {
+      provider: 'open_food_facts',
+      fdcId: 0,
+      description: row.name,
+      lowercaseDescription: row.name.toLowerCase(),
+      dataType: 'Branded',
+      gtinUpc: row.code,
+      publishedDate: row.lastModifiedAt ? row.lastModifiedAt.toISOString().slice(0, 10) : '',
+      ...(row.brand && { brandOwner: row.brand }),
+      ...(row.category && { foodCategory: { id: 0, code: '', description: row.category } }),
+      ...(row.ingredients && { ingredients: row.ingredients }),
+      ...(row.servingSize && { servingSize: row.servingSize, servingSizeUnit: 'g' }),
+      ...(row.householdServingFullText && { householdServingFullText: row.householdServingFullText }),
+      foodNutrients: row.nutrients,
+    };
+  }
+}
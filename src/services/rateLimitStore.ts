@@ -0,0 +1,237 @@
+import { Ratelimit } from '@upstash/ratelimit';
+import type Redis from 'ioredis';
+import { getRedisClient, getUpstashRedis } from '../db/redis';
+import { env } from '../env';
+
+export type RateLimitWindow = Parameters<typeof Ratelimit.slidingWindow>[1];
+
+export interface RateLimitRule {
+  requests: number;
+  window: RateLimitWindow;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds when the current window ends
+  reset: number;
+}
+
+/**
+ * Storage backend for rate limit counters. Every store implements the same sliding window:
+ * the previous fixed window's count is weighted by how much of it still overlaps the last
+ * `window`, plus everything counted in the current fixed window.
+ */
+export interface RateLimitStore {
+  // Count `rate` requests for the key unless that would go over the limit
+  limit(prefix: string, key: string, rule: RateLimitRule, rate: number): Promise<RateLimitResult>;
+  // Same numbers without counting anything
+  peek(prefix: string, key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+  // Forget everything counted for the key, giving it a full quota
+  reset(prefix: string, key: string, rule: RateLimitRule): Promise<void>;
+}
+
+const WINDOW_UNITS_MS = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 } as const;
+
+/**
+ * Convert a window such as "5 m" or "10s" into milliseconds
+ */
+export function windowToMs(window: RateLimitWindow): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/.exec(window);
+  if (!match) {
+    throw new Error(`Invalid rate limit window: ${window}`);
+  }
+  return Number(match[1]) * WINDOW_UNITS_MS[match[2] as keyof typeof WINDOW_UNITS_MS];
+}
+
+/**
+ * Requests counted in the last window, from the previous and current fixed windows' counts
+ */
+function slidingWindowUsage(previous: number, current: number, windowMs: number, now: number): number {
+  const previousWeight = (windowMs - (now % windowMs)) / windowMs;
+  return Math.floor(previous * previousWeight) + current;
+}
+
+function toResult(success: boolean, used: number, rule: RateLimitRule, windowEnd: number): RateLimitResult {
+  return {
+    success,
+    limit: rule.requests,
+    remaining: Math.max(0, rule.requests - used),
+    reset: windowEnd,
+  };
+}
+
+/**
+ * Counters kept in this process. Each server instance counts on its own, so use it for
+ * local development, tests and single-instance deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { window: number; current: number; previous: number }>();
+  private callsSinceSweep = 0;
+
+  private read(id: string, window: number) {
+    const counter = this.counters.get(id);
+    if (!counter || counter.window < window - 1) return { window, current: 0, previous: 0 };
+    if (counter.window === window - 1) return { window, current: 0, previous: counter.current };
+    return counter;
+  }
+
+  async limit(prefix: string, key: string, rule: RateLimitRule, rate: number): Promise<RateLimitResult> {
+    const windowMs = windowToMs(rule.window);
+    const now = Date.now();
+    const window = Math.floor(now / windowMs);
+    const id = `${prefix}:${key}`;
+
+    const counter = this.read(id, window);
+    const used = slidingWindowUsage(counter.previous, counter.current, windowMs, now);
+    const windowEnd = (window + 1) * windowMs;
+
+    this.sweep(windowMs);
+
+    if (used + rate > rule.requests) {
+      return toResult(false, used, rule, windowEnd);
+    }
+
+    this.counters.set(id, { ...counter, current: counter.current + rate });
+    return toResult(true, used + rate, rule, windowEnd);
+  }
+
+  async peek(prefix: string, key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const windowMs = windowToMs(rule.window);
+    const now = Date.now();
+    const window = Math.floor(now / windowMs);
+
+    const counter = this.read(`${prefix}:${key}`, window);
+    const used = slidingWindowUsage(counter.previous, counter.current, windowMs, now);
+    return toResult(used < rule.requests, used, rule, (window + 1) * windowMs);
+  }
+
+  async reset(prefix: string, key: string): Promise<void> {
+    this.counters.delete(`${prefix}:${key}`);
+  }
+
+  // Now and then drop counters too old to matter, so memory doesn't grow with every client seen
+  private sweep(windowMs: number): void {
+    if (++this.callsSinceSweep < 1000) return;
+    this.callsSinceSweep = 0;
+
+    const window = Math.floor(Date.now() / windowMs);
+    for (const [id, counter] of this.counters) {
+      if (counter.window < window - 1) this.counters.delete(id);
+    }
+  }
+}
+
+/**
+ * Counters in Upstash Redis through its REST API, using @upstash/ratelimit
+ */
+export class UpstashRateLimitStore implements RateLimitStore {
+  // One Ratelimit per prefix, since each is built for a single rule
+  private readonly limiters = new Map<string, Ratelimit>();
+
+  private limiter(prefix: string, rule: RateLimitRule): Ratelimit {
+    let limiter = this.limiters.get(prefix);
+    if (!limiter) {
+      limiter = new Ratelimit({
+        redis: getUpstashRedis(),
+        limiter: Ratelimit.slidingWindow(rule.requests, rule.window),
+        analytics: true,
+        prefix,
+      });
+      this.limiters.set(prefix, limiter);
+    }
+    return limiter;
+  }
+
+  async limit(prefix: string, key: string, rule: RateLimitRule, rate: number): Promise<RateLimitResult> {
+    const { success, limit, remaining, reset, reason } = await this.limiter(prefix, rule).limit(key, { rate });
+    // When Upstash doesn't answer in time the library allows the request instead of failing, which would
+    // bypass RATE_LIMIT_FAIL_CLOSED; throw so the middleware decides like for any other outage
+    if (reason === 'timeout') {
+      throw new Error('Upstash rate limit request timed out');
+    }
+    return { success, limit, remaining, reset };
+  }
+
+  async peek(prefix: string, key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const { limit, remaining, reset } = await this.limiter(prefix, rule).getRemaining(key);
+    return { success: remaining > 0, limit, remaining, reset };
+  }
+
+  async reset(prefix: string, key: string, rule: RateLimitRule): Promise<void> {
+    await this.limiter(prefix, rule).resetUsedTokens(key);
+  }
+}
+
+// Checks and counts atomically: KEYS are the current and previous window counters,
+// ARGV the limit, window length, current time and request weight. Returns {allowed, used}.
+const SLIDING_WINDOW_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local rate = tonumber(ARGV[4])
+local used = math.floor(previous * (window - now % window) / window) + current
+if used + rate > limit then
+  return {0, used}
+end
+redis.call('INCRBY', KEYS[1], rate)
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return {1, used + rate}
+`;
+
+/**
+ * Counters on any Redis-protocol server (Redis, Valkey, KeyDB, ...) at REDIS_URL
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private readonly client: Redis) {}
+
+  private keys(prefix: string, key: string, window: number): [string, string] {
+    return [`${prefix}:${key}:${window}`, `${prefix}:${key}:${window - 1}`];
+  }
+
+  async limit(prefix: string, key: string, rule: RateLimitRule, rate: number): Promise<RateLimitResult> {
+    const windowMs = windowToMs(rule.window);
+    const now = Date.now();
+    const window = Math.floor(now / windowMs);
+
+    const [allowed, used] = await this.client.eval(
+      SLIDING_WINDOW_SCRIPT,
+      2,
+      ...this.keys(prefix, key, window),
+      rule.requests,
+      windowMs,
+      now,
+      rate
+    ) as [number, number];
+
+    return toResult(allowed === 1, used, rule, (window + 1) * windowMs);
+  }
+
+  async peek(prefix: string, key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const windowMs = windowToMs(rule.window);
+    const now = Date.now();
+    const window = Math.floor(now / windowMs);
+
+    const [current, previous] = await this.client.mget(...this.keys(prefix, key, window));
+    const used = slidingWindowUsage(Number(previous ?? 0), Number(current ?? 0), windowMs, now);
+    return toResult(used < rule.requests, used, rule, (window + 1) * windowMs);
+  }
+
+  async reset(prefix: string, key: string, rule: RateLimitRule): Promise<void> {
+    const window = Math.floor(Date.now() / windowToMs(rule.window));
+    await this.client.del(...this.keys(prefix, key, window));
+  }
+}
+
+/**
+ * The store chosen by RATE_LIMIT_BACKEND
+ */
+export function createRateLimitStore(): RateLimitStore {
+  // The env schema isn't applied under NODE_ENV=test, so fall back to memory there
+  if (env.RATE_LIMIT_BACKEND === 'upstash') return new UpstashRateLimitStore();
+  if (env.RATE_LIMIT_BACKEND === 'redis') return new RedisRateLimitStore(getRedisClient());
+  return new MemoryRateLimitStore();
+}
@@ -0,0 +1,401 @@
+import { and, asc, eq, ilike, inArray, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/connection';
+import {
+  recipes,
+  recipeIngredients,
+  type Recipe,
+  type RecipeIngredientRow,
+  type NewRecipeIngredientRow,
+} from '../db/schema';
+import {
+  CalorieResponse,
+  CreateRecipeRequest,
+  FoodUnit,
+  PortionInfo,
+  SavedRecipeIngredient,
+  UpdateRecipeRequest,
+} from '../types';
+import customFoodService from './customFoodService';
+import usdaService from './usdaService';
+import { calculateNutritionForGrams, calculateTotals, roundToTenth, scaleMacronutrients, sumMacronutrients } from '../utils/nutrition';
+import { convertMassToGrams, convertVolumeToMl, isMassUnit, isVolumeUnit } from '../utils/units';
+import { escapeLikePattern } from '../utils/validation';
+
+type ResolvedIngredient = Omit<NewRecipeIngredientRow, 'id' | 'recipeId'>;
+
+export interface RecipeWithIngredients extends Recipe {
+  ingredients: RecipeIngredientRow[];
+}
+
+class RecipeService {
+  /**
+   * Convert a recipe and its ingredients into the snake_case API shape
+   */
+  formatRecipe(recipe: RecipeWithIngredients) {
+    return {
+      id: recipe.id,
+      name: recipe.name,
+      servings: recipe.servings,
+      calories_per_serving: Math.round(recipe.totalCalories / recipe.servings),
+      total_calories: recipe.totalCalories,
+      macronutrients_per_serving: scaleMacronutrients(recipe.totalMacronutrients, 1 / recipe.servings),
+      total_macronutrients: recipe.totalMacronutrients,
+      ingredients: recipe.ingredients.map(ingredient => ({
+        id: ingredient.id,
+        name: ingredient.name,
+        fdc_id: ingredient.fdcId,
+        custom_food_id: ingredient.customFoodId,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        grams: ingredient.grams,
+        ...calculateNutritionForGrams(
+          ingredient.caloriesPer100g,
+          ingredient.macronutrientsPer100g,
+          ingredient.grams
+        ),
+      })),
+      created_at: recipe.createdAt.toISOString(),
+      updated_at: recipe.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Look up nutrition for every ingredient, from USDA by FDC ID or from the user's custom foods
+   */
+  private async resolveIngredients(
+    userId: number,
+    ingredients: SavedRecipeIngredient[]
+  ): Promise<ResolvedIngredient[]> {
+    // Fetch all USDA ingredients in one request
+    const usdaFoods = await usdaService.resolveFoodsByIds(
+      ingredients.flatMap(ingredient => (ingredient.fdc_id !== undefined ? [ingredient.fdc_id] : []))
+    );
+
+    return Promise.all(ingredients.map(async (ingredient, position): Promise<ResolvedIngredient> => {
+      if (ingredient.custom_food_id !== undefined) {
+        const food = await customFoodService.get(userId, ingredient.custom_food_id);
+        if (!food) {
+          throw new Error(`Custom food ${ingredient.custom_food_id} not found`);
+        }
+
+        const { caloriesPer100g, macronutrientsPer100g } = customFoodService.getNutritionPer100g(food);
+        return {
+          position,
+          fdcId: null,
+          customFoodId: food.id,
+          name: food.name,
+          quantity: ingredient.quantity,
+          unit: ingredient.unit,
+          grams: roundToTenth(customFoodService.quantityToGrams(food, ingredient.quantity, ingredient.unit)),
+          caloriesPer100g,
+          macronutrientsPer100g,
+        };
+      }
+
+      const resolved = usdaFoods.get(ingredient.fdc_id!)!;
+      return {
+        position,
+        fdcId: resolved.food.fdcId,
+        customFoodId: null,
+        name: resolved.food.description,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        grams: roundToTenth(usdaService.quantityToGrams(resolved.food, ingredient.quantity, ingredient.unit)),
+        caloriesPer100g: resolved.caloriesPer100g,
+        macronutrientsPer100g: scaleMacronutrients(resolved.macronutrientsPer100g, 1),
+      };
+    }));
+  }
+
+  /**
+   * Add up ingredient nutrition into recipe totals
+   */
+  private calculateRecipeTotals(ingredients: Pick<ResolvedIngredient, 'caloriesPer100g' | 'macronutrientsPer100g' | 'grams'>[]) {
+    const perIngredient = ingredients.map(ingredient =>
+      calculateNutritionForGrams(ingredient.caloriesPer100g, ingredient.macronutrientsPer100g, ingredient.grams)
+    );
+
+    return {
+      totalCalories: perIngredient.reduce((total, item) => total + item.calories, 0),
+      totalMacronutrients: sumMacronutrients(perIngredient.map(item => item.macronutrients)),
+    };
+  }
+
+  private async getIngredients(recipeId: number): Promise<RecipeIngredientRow[]> {
+    return db
+      .select()
+      .from(recipeIngredients)
+      .where(eq(recipeIngredients.recipeId, recipeId))
+      .orderBy(asc(recipeIngredients.position));
+  }
+
+  async list(userId: number, query: string | undefined, limit: number, offset: number): Promise<Recipe[]> {
+    const conditions: SQL[] = [eq(recipes.userId, userId)];
+    if (query) conditions.push(ilike(recipes.name, `%${escapeLikePattern(query)}%`));
+
+    return db
+      .select()
+      .from(recipes)
+      .where(and(...conditions))
+      .orderBy(asc(recipes.name), asc(recipes.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async get(userId: number, id: number): Promise<RecipeWithIngredients | null> {
+    const [recipe] = await db
+      .select()
+      .from(recipes)
+      .where(and(eq(recipes.id, id), eq(recipes.userId, userId)))
+      .limit(1);
+
+    if (!recipe) return null;
+
+    return { ...recipe, ingredients: await this.getIngredients(recipe.id) };
+  }
+
+  /**
+   * Find a saved recipe whose name matches the query, ignoring case
+   */
+  async findByName(userId: number, name: string): Promise<RecipeWithIngredients | null> {
+    const [recipe] = await db
+      .select()
+      .from(recipes)
+      .where(and(
+        eq(recipes.userId, userId),
+        eq(sql`lower(${recipes.name})`, name.trim().toLowerCase())
+      ))
+      .orderBy(asc(recipes.id))
+      .limit(1);
+
+    if (!recipe) return null;
+
+    return { ...recipe, ingredients: await this.getIngredients(recipe.id) };
+  }
+
+  async create(userId: number, input: CreateRecipeRequest): Promise<RecipeWithIngredients> {
+    const ingredients = await this.resolveIngredients(userId, input.ingredients);
+    const { totalCalories, totalMacronutrients } = this.calculateRecipeTotals(ingredients);
+
+    return db.transaction(async (tx) => {
+      const [recipe] = await tx
+        .insert(recipes)
+        .values({
+          userId,
+          name: input.name,
+          servings: input.servings,
+          totalCalories,
+          totalMacronutrients,
+        })
+        .returning();
+
+      const rows = await tx
+        .insert(recipeIngredients)
+        .values(ingredients.map(ingredient => ({ ...ingredient, recipeId: recipe!.id })))
+        .returning();
+
+      return { ...recipe!, ingredients: rows };
+    });
+  }
+
+  /**
+   * Update a recipe; a new ingredient list replaces the old one and the nutrition is recomputed
+   */
+  async update(userId: number, id: number, input: UpdateRecipeRequest): Promise<RecipeWithIngredients | null> {
+    const existing = await this.get(userId, id);
+    if (!existing) return null;
+
+    const ingredients = input.ingredients
+      ? await this.resolveIngredients(userId, input.ingredients)
+      : null;
+
+    return db.transaction(async (tx) => {
+      const changes: Partial<typeof recipes.$inferInsert> = { updatedAt: new Date() };
+      if (input.name !== undefined) changes.name = input.name;
+      if (input.servings !== undefined) changes.servings = input.servings;
+
+      let rows = existing.ingredients;
+      if (ingredients) {
+        const { totalCalories, totalMacronutrients } = this.calculateRecipeTotals(ingredients);
+        changes.totalCalories = totalCalories;
+        changes.totalMacronutrients = totalMacronutrients;
+
+        await tx.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, id));
+        rows = await tx
+          .insert(recipeIngredients)
+          .values(ingredients.map(ingredient => ({ ...ingredient, recipeId: id })))
+          .returning();
+      }
+
+      const [recipe] = await tx
+        .update(recipes)
+        .set(changes)
+        .where(eq(recipes.id, id))
+        .returning();
+
+      return { ...recipe!, ingredients: rows };
+    });
+  }
+
+  async delete(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(recipes)
+      .where(and(eq(recipes.id, id), eq(recipes.userId, userId)))
+      .returning({ id: recipes.id });
+
+    return Boolean(deleted);
+  }
+
+  /**
+   * Recipes that use a custom food as an ingredient
+   */
+  async findRecipesUsingCustomFood(customFoodId: number): Promise<Pick<Recipe, 'id' | 'name'>[]> {
+    return db
+      .selectDistinct({ id: recipes.id, name: recipes.name })
+      .from(recipes)
+      .innerJoin(recipeIngredients, eq(recipeIngredients.recipeId, recipes.id))
+      .where(eq(recipeIngredients.customFoodId, customFoodId))
+      .orderBy(asc(recipes.name));
+  }
+
+  /**
+   * Refresh ingredient nutrition and recipe totals after a custom food's label changed
+   */
+  async recomputeForCustomFood(userId: number, customFoodId: number): Promise<number> {
+    const food = await customFoodService.get(userId, customFoodId);
+    if (!food) return 0;
+
+    const { caloriesPer100g, macronutrientsPer100g } = customFoodService.getNutritionPer100g(food);
+
+    return db.transaction(async (tx) => {
+      const affected = await tx
+        .select()
+        .from(recipeIngredients)
+        .where(eq(recipeIngredients.customFoodId, customFoodId));
+
+      for (const ingredient of affected) {
+        await tx
+          .update(recipeIngredients)
+          .set({
+            name: food.name,
+            grams: roundToTenth(customFoodService.quantityToGrams(
+              food,
+              ingredient.quantity,
+              ingredient.unit as SavedRecipeIngredient['unit']
+            )),
+            caloriesPer100g,
+            macronutrientsPer100g,
+          })
+          .where(eq(recipeIngredients.id, ingredient.id));
+      }
+
+      const recipeIds = [...new Set(affected.map(ingredient => ingredient.recipeId))];
+      if (recipeIds.length === 0) return 0;
+
+      const refreshed = await tx
+        .select()
+        .from(recipeIngredients)
+        .where(inArray(recipeIngredients.recipeId, recipeIds));
+
+      for (const recipeId of recipeIds) {
+        const { totalCalories, totalMacronutrients } = this.calculateRecipeTotals(
+          refreshed.filter(ingredient => ingredient.recipeId === recipeId)
+        );
+        await tx
+          .update(recipes)
+          .set({ totalCalories, totalMacronutrients, updatedAt: new Date() })
+          .where(eq(recipes.id, recipeId));
+      }
+
+      return recipeIds.length;
+    });
+  }
+
+  /**
+   * Resolve a quantity of a saved recipe to grams, using the combined weight of its ingredients.
+   * Household units count as one recipe serving and volumes assume the density of water.
+   */
+  resolvePortion(recipe: RecipeWithIngredients, quantity: number, unit: FoodUnit): PortionInfo {
+    const gramsPerServing = recipe.ingredients.reduce((total, ingredient) => total + ingredient.grams, 0) / recipe.servings;
+    let gramsPerUnit: number;
+    let source: PortionInfo['source'];
+    let description: string;
+
+    if (isMassUnit(unit)) {
+      gramsPerUnit = convertMassToGrams(1, unit);
+      source = 'unit_conversion';
+      description = `1 ${unit} = ${roundToTenth(gramsPerUnit)} g`;
+    } else if (isVolumeUnit(unit)) {
+      gramsPerUnit = convertVolumeToMl(1, unit);
+      source = 'density_estimate';
+      description = 'No volume data for saved recipes, assumed 1 g/ml';
+    } else {
+      gramsPerUnit = gramsPerServing;
+      source = 'recipe_serving';
+      description = `1 of ${recipe.servings} servings (${roundToTenth(gramsPerServing)} g)`;
+    }
+
+    return {
+      quantity,
+      unit,
+      grams_per_unit: roundToTenth(gramsPerUnit),
+      total_grams: roundToTenth(gramsPerUnit * quantity),
+      source,
+      description,
+    };
+  }
+
+  /**
+   * Build a calorie response for a saved recipe, as /get-calories would for a USDA match
+   */
+  toCalorieResponse(recipe: RecipeWithIngredients, dishName: string, quantity: number, unit: FoodUnit = 'serving'): CalorieResponse {
+    const caloriesPerServing = Math.round(recipe.totalCalories / recipe.servings);
+    const macronutrientsPerServing = scaleMacronutrients(recipe.totalMacronutrients, 1 / recipe.servings);
+    const portion = this.resolvePortion(recipe, quantity, unit);
+
+    // Other units are converted to a number of servings by weight
+    const gramsPerServing = this.resolvePortion(recipe, 1, 'serving').grams_per_unit;
+    const servings = unit === 'serving' || gramsPerServing === 0
+      ? quantity
+      : Math.round((portion.total_grams / gramsPerServing) * 100) / 100;
+    const { totalCalories, totalMacronutrients } = calculateTotals(
+      caloriesPerServing,
+      macronutrientsPerServing,
+      servings
+    );
+
+    return {
+      dish_name: dishName,
+      servings,
+      calories_per_serving: caloriesPerServing,
+      total_calories: totalCalories,
+      macronutrients_per_serving: macronutrientsPerServing,
+      total_macronutrients: totalMacronutrients,
+      source: 'Custom recipe',
+      ingredient_breakdown: recipe.ingredients.map(ingredient => ({
+        name: ingredient.name,
+        calories_per_100g: ingredient.caloriesPer100g,
+        macronutrients_per_100g: ingredient.macronutrientsPer100g,
+        ...(ingredient.fdcId !== null && { fdc_id: ingredient.fdcId }),
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        grams: ingredient.grams,
+        ...calculateNutritionForGrams(
+          ingredient.caloriesPer100g,
+          ingredient.macronutrientsPer100g,
+          ingredient.grams
+        ),
+      })),
+      portion,
+      // Matched by name, ignoring case
+      match: { rule: 'exact', confidence: 1, alternatives: [] },
+      custom_match: {
+        type: 'recipe',
+        id: recipe.id,
+        name: recipe.name,
+      },
+    };
+  }
+}
+
+export default new RecipeService();
@@ -0,0 +1,183 @@
+import jwt from 'jsonwebtoken';
+import { and, eq, isNull, ne } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { authSessions, refreshTokens, users } from '../db/schema';
+import { env } from '../env';
+import logger from '../utils/logger';
+import { generateToken, hashToken } from '../utils/tokens';
+
+export interface SessionUser {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refresh_token: string;
+  // Seconds until the access token expires
+  expires_in: number;
+}
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'token_reuse' | 'password_reset' | 'password_change' | 'account_disabled';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class SessionService {
+  /**
+   * Short-lived JWT tied to a session, so revoking the session also rejects it
+   */
+  private issueAccessToken(user: SessionUser, sessionId: string): { token: string; expiresIn: number } {
+    const token = jwt.sign(
+      {
+        userId: user.id,
+        sid: sessionId,
+        first_name: user.firstName,
+        last_name: user.lastName,
+        email: user.email,
+      },
+      env.JWT_SECRET,
+      { expiresIn: env.JWT_EXPIRES_IN } as jwt.SignOptions
+    );
+
+    const { iat = 0, exp = 0 } = jwt.decode(token) as jwt.JwtPayload;
+    return { token, expiresIn: exp - iat };
+  }
+
+  /**
+   * Store a new refresh token for a session and return it; only its hash is kept
+   */
+  private async issueRefreshToken(sessionId: string): Promise<string> {
+    const refreshToken = generateToken();
+    const ttlDays: number = env.REFRESH_TOKEN_TTL_DAYS ?? 30;
+
+    await db.insert(refreshTokens).values({
+      sessionId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + ttlDays * DAY_MS),
+    });
+
+    return refreshToken;
+  }
+
+  private async issueTokens(user: SessionUser, sessionId: string): Promise<IssuedTokens> {
+    const { token, expiresIn } = this.issueAccessToken(user, sessionId);
+    const refreshToken = await this.issueRefreshToken(sessionId);
+    return { token, refresh_token: refreshToken, expires_in: expiresIn };
+  }
+
+  /**
+   * Start a session at login or registration
+   */
+  async createSession(user: SessionUser): Promise<IssuedTokens> {
+    const [session] = await db
+      .insert(authSessions)
+      .values({ userId: user.id })
+      .returning({ id: authSessions.id });
+
+    return this.issueTokens(user, session!.id);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token.
+   * The old refresh token stops working; presenting it again revokes the whole session.
+   */
+  async refresh(refreshToken: string): Promise<IssuedTokens & { userId: number }> {
+    const tokenHash = hashToken(refreshToken);
+    const now = new Date();
+
+    // Claim the token atomically so two concurrent refreshes can't both succeed
+    const [claimed] = await db
+      .update(refreshTokens)
+      .set({ rotatedAt: now })
+      .where(and(eq(refreshTokens.tokenHash, tokenHash), isNull(refreshTokens.rotatedAt)))
+      .returning();
+
+    if (!claimed) {
+      const [rotated] = await db
+        .select({ sessionId: refreshTokens.sessionId })
+        .from(refreshTokens)
+        .where(eq(refreshTokens.tokenHash, tokenHash))
+        .limit(1);
+
+      if (rotated) {
+        await this.revokeSession(rotated.sessionId, 'token_reuse');
+        logger.warn('Refresh token reuse detected, session revoked', { sessionId: rotated.sessionId });
+        throw new Error('Refresh token reuse detected; the session has been revoked');
+      }
+
+      throw new Error('Invalid refresh token');
+    }
+
+    if (claimed.expiresAt <= now) {
+      throw new Error('Refresh token has expired');
+    }
+
+    const [session] = await db
+      .select({
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(authSessions)
+      .innerJoin(users, eq(users.id, authSessions.userId))
+      // Disabling an account revokes its sessions; the check covers sessions created while that ran
+      .where(and(eq(authSessions.id, claimed.sessionId), isNull(authSessions.revokedAt), isNull(users.disabledAt)))
+      .limit(1);
+
+    if (!session) {
+      throw new Error('Session has been revoked');
+    }
+
+    await db
+      .update(authSessions)
+      .set({ lastRefreshedAt: now })
+      .where(eq(authSessions.id, claimed.sessionId));
+
+    return { ...(await this.issueTokens(session, claimed.sessionId)), userId: session.id };
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to. Returns false for unknown tokens.
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const [token] = await db
+      .select({ sessionId: refreshTokens.sessionId })
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, hashToken(refreshToken)))
+      .limit(1);
+
+    if (!token) return false;
+
+    await this.revokeSession(token.sessionId, 'logout');
+    return true;
+  }
+
+  async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await db
+      .update(authSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(authSessions.id, sessionId), isNull(authSessions.revokedAt)));
+  }
+
+  /**
+   * Revoke every active session of a user, except exceptSessionId when given, returning how many were revoked
+   */
+  async revokeAllSessions(userId: number, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number> {
+    const revoked = await db
+      .update(authSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(
+        eq(authSessions.userId, userId),
+        isNull(authSessions.revokedAt),
+        exceptSessionId ? ne(authSessions.id, exceptSessionId) : undefined
+      ))
+      .returning({ id: authSessions.id });
+
+    return revoked.length;
+  }
+}
+
+export default new SessionService();
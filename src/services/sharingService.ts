@@ -0,0 +1,254 @@
+import { and, desc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { coachAccessLogs, coachGrants, users, type CoachGrant } from '../db/schema';
+import {
+  AccessLogEntry,
+  CreateShareInviteRequest,
+  ListAccessLogRequest,
+  ShareGrantResponse,
+  ShareParty,
+  ShareScope,
+} from '../types';
+import logger from '../utils/logger';
+import mailService from './mailService';
+
+const OPEN_STATUSES = ['pending', 'active'] as const;
+
+const partyColumns = {
+  id: users.id,
+  first_name: users.firstName,
+  last_name: users.lastName,
+  email: users.email,
+};
+
+// The signed-in coach: pending invitations are matched by email, accepted ones by account
+export interface CoachIdentity {
+  id: number;
+  email: string;
+  email_verified: boolean;
+}
+
+export interface ActiveGrant {
+  grant: CoachGrant;
+  // Client's time zone, used as the default for their summaries
+  clientTimezone: string;
+}
+
+class SharingService {
+  /**
+   * Convert a grant into the snake_case API shape, optionally with details of the other side
+   */
+  formatGrant(grant: CoachGrant, party: { coach?: ShareParty | null; client?: ShareParty } = {}): ShareGrantResponse {
+    return {
+      id: grant.id,
+      client_id: grant.clientId,
+      coach_id: grant.coachId,
+      coach_email: grant.coachEmail,
+      scopes: grant.scopes,
+      status: grant.status,
+      ...party,
+      created_at: grant.createdAt.toISOString(),
+      accepted_at: grant.acceptedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Invite the owner of the given email to read the client's data. The invitation is pending until
+   * an account with that email accepts it. Nothing here depends on whether the account exists, so
+   * the caller can't use invitations to find out which emails are registered. Null when the coach
+   * already has access or an open invitation.
+   */
+  async invite(client: ShareParty, data: CreateShareInviteRequest): Promise<CoachGrant | null> {
+    if (data.email === client.email) {
+      throw new Error('You cannot share your data with yourself');
+    }
+
+    // The coach may have accepted under an email they have since changed
+    const [open] = await db
+      .select({ id: coachGrants.id })
+      .from(coachGrants)
+      .leftJoin(users, eq(users.id, coachGrants.coachId))
+      .where(and(
+        eq(coachGrants.clientId, client.id),
+        inArray(coachGrants.status, [...OPEN_STATUSES]),
+        or(eq(coachGrants.coachEmail, data.email), eq(users.email, data.email))
+      ))
+      .limit(1);
+
+    if (open) {
+      return null;
+    }
+
+    const [grant] = await db
+      .insert(coachGrants)
+      .values({ clientId: client.id, coachEmail: data.email, scopes: data.scopes })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!grant) {
+      return null;
+    }
+
+    // Not awaited, so the response time doesn't tell whether an email was sent. The coach also
+    // sees the invitation in GET /sharing/clients, so a mail outage doesn't fail it.
+    this.sendInviteEmail(grant, client).catch(error => {
+      logger.warn('Failed to send share invitation email', { grantId: grant.id, error });
+    });
+
+    return grant;
+  }
+
+  /**
+   * Email the invitation if the address belongs to an account
+   */
+  private async sendInviteEmail(grant: CoachGrant, client: ShareParty): Promise<void> {
+    const [coach] = await db.select(partyColumns).from(users).where(eq(users.email, grant.coachEmail)).limit(1);
+    if (!coach) return;
+
+    await mailService.sendShareInviteEmail(
+      coach.email,
+      coach.first_name,
+      `${client.first_name} ${client.last_name}`,
+      grant.scopes
+    );
+  }
+
+  /**
+   * Pending and active grants the client has given, newest first
+   */
+  async listCoaches(clientId: number): Promise<Array<{ grant: CoachGrant; coach: ShareParty | null }>> {
+    return db
+      .select({ grant: coachGrants, coach: partyColumns })
+      .from(coachGrants)
+      .leftJoin(users, eq(users.id, coachGrants.coachId))
+      .where(and(eq(coachGrants.clientId, clientId), inArray(coachGrants.status, [...OPEN_STATUSES])))
+      .orderBy(desc(coachGrants.createdAt), desc(coachGrants.id));
+  }
+
+  /**
+   * Pending and active grants the coach has received, newest first
+   */
+  async listClients(coach: CoachIdentity): Promise<Array<{ grant: CoachGrant; client: ShareParty }>> {
+    return db
+      .select({ grant: coachGrants, client: partyColumns })
+      .from(coachGrants)
+      .innerJoin(users, eq(users.id, coachGrants.clientId))
+      .where(and(this.addressedTo(coach), inArray(coachGrants.status, [...OPEN_STATUSES])))
+      .orderBy(desc(coachGrants.createdAt), desc(coachGrants.id));
+  }
+
+  /**
+   * Accept an invitation sent to the coach's verified email, tying the grant to their account.
+   * Null when there is no such pending invitation.
+   */
+  async accept(coach: CoachIdentity, grantId: number): Promise<CoachGrant | null> {
+    const now = new Date();
+    const [grant] = await db
+      .update(coachGrants)
+      .set({ coachId: coach.id, status: 'active', acceptedAt: now, updatedAt: now })
+      .where(and(eq(coachGrants.id, grantId), this.addressedTo(coach), eq(coachGrants.status, 'pending')))
+      .returning();
+
+    return grant ?? null;
+  }
+
+  /**
+   * End an open grant from the client's or the coach's side. A coach turning down a pending
+   * invitation declines it; anything else revokes it. Null when the user has no such open grant.
+   */
+  async end(user: CoachIdentity, grantId: number, side: 'client' | 'coach'): Promise<CoachGrant | null> {
+    const owner = side === 'client' ? eq(coachGrants.clientId, user.id) : this.addressedTo(user);
+    const now = new Date();
+
+    const [grant] = await db
+      .update(coachGrants)
+      .set({
+        status: side === 'coach'
+          ? sql`case when ${coachGrants.status} = 'pending' then 'declined' else 'revoked' end::share_status`
+          : 'revoked',
+        endedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(coachGrants.id, grantId), owner, inArray(coachGrants.status, [...OPEN_STATUSES])))
+      .returning();
+
+    return grant ?? null;
+  }
+
+  /**
+   * The active grant letting the coach read the client's data in the given scope, if any
+   */
+  async findActiveGrant(coachId: number, clientId: number, scope: ShareScope): Promise<ActiveGrant | null> {
+    const [row] = await db
+      .select({ grant: coachGrants, clientTimezone: users.timezone })
+      .from(coachGrants)
+      .innerJoin(users, eq(users.id, coachGrants.clientId))
+      .where(and(
+        eq(coachGrants.coachId, coachId),
+        eq(coachGrants.clientId, clientId),
+        eq(coachGrants.status, 'active')
+      ))
+      .limit(1);
+
+    if (!row || !row.grant.scopes.includes(scope)) {
+      return null;
+    }
+
+    return row;
+  }
+
+  /**
+   * Grants tied to the coach's account, or pending for their email once they have proven they own it
+   */
+  private addressedTo(coach: CoachIdentity) {
+    if (!coach.email_verified) {
+      return eq(coachGrants.coachId, coach.id);
+    }
+
+    return or(
+      eq(coachGrants.coachId, coach.id),
+      and(isNull(coachGrants.coachId), eq(coachGrants.coachEmail, coach.email))
+    )!;
+  }
+
+  async recordAccess(grant: CoachGrant, scope: ShareScope, method: string, path: string): Promise<void> {
+    await db.insert(coachAccessLogs).values({
+      grantId: grant.id,
+      clientId: grant.clientId,
+      // Only active grants are read through, and accepting one records the coach
+      coachId: grant.coachId!,
+      scope,
+      method,
+      path: path.slice(0, 500),
+    });
+  }
+
+  /**
+   * Coach reads of the client's data, newest first
+   */
+  async listAccessLog(clientId: number, filters: ListAccessLogRequest): Promise<AccessLogEntry[]> {
+    const conditions = [eq(coachAccessLogs.clientId, clientId)];
+    if (filters.coach_id) conditions.push(eq(coachAccessLogs.coachId, filters.coach_id));
+
+    const rows = await db
+      .select({ log: coachAccessLogs, coach: partyColumns })
+      .from(coachAccessLogs)
+      .innerJoin(users, eq(users.id, coachAccessLogs.coachId))
+      .where(and(...conditions))
+      .orderBy(desc(coachAccessLogs.createdAt), desc(coachAccessLogs.id))
+      .limit(filters.limit)
+      .offset(filters.offset);
+
+    return rows.map(({ log, coach }) => ({
+      id: log.id,
+      grant_id: log.grantId,
+      coach,
+      scope: log.scope,
+      method: log.method,
+      path: log.path,
+      accessed_at: log.createdAt.toISOString(),
+    }));
+  }
+}
+
+export default new SharingService();
@@ -0,0 +1,141 @@
+import { and, asc, eq, gte, lte, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { diaryEntries } from '../db/schema';
+import {
+  MEAL_TYPES,
+  MealType,
+  Macronutrients,
+  NutritionTotals,
+  DailySummary,
+  DailySummaryResponse,
+  RangeSummaryResponse,
+} from '../types';
+import { enumerateDates, toLocalDateString } from '../utils/dates';
+import { scaleMacronutrients, sumMacronutrients } from '../utils/nutrition';
+
+// Widest offset of any real time zone from UTC (UTC+14 / UTC-12)
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+interface SummaryEntry {
+  localDate: string;
+  mealType: MealType;
+  totalCalories: number;
+  totalMacronutrients: Macronutrients;
+}
+
+class SummaryService {
+  /**
+   * Load a user's diary entries whose consumed_at falls within the given local dates
+   */
+  private async fetchEntries(
+    userId: number,
+    from: string,
+    to: string,
+    timeZone: string
+  ): Promise<SummaryEntry[]> {
+    // Local calendar date of each entry, resolved by Postgres in the user's time zone
+    const localDate = sql<string>`to_char(${diaryEntries.consumedAt} AT TIME ZONE ${timeZone}, 'YYYY-MM-DD')`;
+
+    return db
+      .select({
+        localDate,
+        mealType: diaryEntries.mealType,
+        totalCalories: diaryEntries.totalCalories,
+        totalMacronutrients: diaryEntries.totalMacronutrients,
+      })
+      .from(diaryEntries)
+      .where(and(
+        eq(diaryEntries.userId, userId),
+        // Coarse UTC bounds so the (user_id, consumed_at) index can be used
+        gte(diaryEntries.consumedAt, new Date(Date.parse(`${from}T00:00:00Z`) - MAX_UTC_OFFSET_MS)),
+        lte(diaryEntries.consumedAt, new Date(Date.parse(`${to}T23:59:59.999Z`) + MAX_UTC_OFFSET_MS)),
+        gte(localDate, from),
+        lte(localDate, to)
+      ))
+      .orderBy(asc(diaryEntries.consumedAt));
+  }
+
+  /**
+   * Add up calories and macronutrients for a set of entries
+   */
+  private totalEntries(entries: SummaryEntry[]): NutritionTotals {
+    return {
+      entry_count: entries.length,
+      total_calories: entries.reduce((total, entry) => total + entry.totalCalories, 0),
+      total_macronutrients: sumMacronutrients(entries.map(entry => entry.totalMacronutrients)),
+    };
+  }
+
+  /**
+   * Build the per-day summary with a breakdown for every meal type
+   */
+  private summarizeDay(date: string, entries: SummaryEntry[]): DailySummary {
+    const meals = Object.fromEntries(
+      MEAL_TYPES.map(mealType => [
+        mealType,
+        this.totalEntries(entries.filter(entry => entry.mealType === mealType)),
+      ])
+    ) as Record<MealType, NutritionTotals>;
+
+    return {
+      date,
+      ...this.totalEntries(entries),
+      meals,
+    };
+  }
+
+  /**
+   * Daily nutrition summary for a single local date (defaults to today in the time zone)
+   */
+  async getDailySummary(
+    userId: number,
+    date: string | undefined,
+    timeZone: string
+  ): Promise<DailySummaryResponse> {
+    const day = date ?? toLocalDateString(new Date(), timeZone);
+    const entries = await this.fetchEntries(userId, day, day, timeZone);
+
+    return {
+      ...this.summarizeDay(day, entries),
+      timezone: timeZone,
+    };
+  }
+
+  /**
+   * Nutrition summary across a range of local dates, with per-day breakdowns and daily averages
+   */
+  async getRangeSummary(
+    userId: number,
+    from: string,
+    to: string,
+    timeZone: string
+  ): Promise<RangeSummaryResponse> {
+    const entries = await this.fetchEntries(userId, from, to, timeZone);
+
+    const days = enumerateDates(from, to).map(date =>
+      this.summarizeDay(date, entries.filter(entry => entry.localDate === date))
+    );
+    const totals = this.totalEntries(entries);
+
+    // Averages only count days with at least one logged entry
+    const daysLogged = days.filter(day => day.entry_count > 0).length;
+    const averageCalories = daysLogged > 0 ? Math.round(totals.total_calories / daysLogged) : 0;
+    const averageMacronutrients = scaleMacronutrients(
+      totals.total_macronutrients,
+      daysLogged > 0 ? 1 / daysLogged : 0
+    );
+
+    return {
+      from,
+      to,
+      timezone: timeZone,
+      ...totals,
+      days_logged: daysLogged,
+      average_calories_per_day: averageCalories,
+      average_macronutrients_per_day: averageMacronutrients,
+      days,
+    };
+  }
+}
+
+export default new SummaryService();
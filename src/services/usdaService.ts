@@ -1,157 +1,301 @@
-import axios, { AxiosResponse } from 'axios';
-import { USDASearchResponse, USDAFood, CalorieResponse, ENERGY_NUTRIENT_IDS, MACRONUTRIENT_IDS } from '../types';
+import {
+  USDASearchResponse,
+  USDAFood,
+  CalorieResponse,
+  IngredientBreakdown,
+  FoodUnit,
+  CacheInfo,
+  FoodDetailsResponse,
+  FoodPortionOption,
+  FoodSearchResponse,
+  USDA_DATA_TYPES,
+  FOOD_PROVIDER_NAMES,
+  MicronutrientAmounts,
+  MICRONUTRIENTS,
+  MatchExplanation,
+  MatchRule,
+  STRICT_MATCH_MIN_CONFIDENCE,
+  ENERGY_NUTRIENT_IDS,
+  MACRONUTRIENT_IDS,
+} from '../types';
 import { env } from '../env';
+import cacheService, { Cached, CacheOptions } from './cacheService';
+import { createAdditionalProviders, createFoodProvider, FoodProvider, FoodSearchOptions } from './foodProviders';
 import logger from '../utils/logger';
+import {
+  MacronutrientValues,
+  calculateNutritionForGrams,
+  calculateTotals,
+  formatMicronutrients,
+  roundToTenth,
+  scaleMacronutrients,
+  scaleMicronutrientAmounts,
+} from '../utils/nutrition';
+import { resolvePortion, resolveServingSize } from '../utils/portions';
+import { findBestMatch, rankFoods } from '../utils/foodMatching';
+
+export type { FoodSearchOptions } from './foodProviders';
+
+// Only results from the API go through the response cache
+export interface MaybeCached<T> {
+  value: T;
+  cache?: CacheInfo;
+}
+
+export interface CalculationOptions {
+  // Add micronutrient amounts and % Daily Value to the response
+  includeMicronutrients?: boolean;
+  // Fail instead of returning a match below STRICT_MATCH_MIN_CONFIDENCE
+  strict?: boolean;
+}
+
+export interface ResolvedFood {
+  food: USDAFood;
+  caloriesPer100g: number;
+  macronutrientsPer100g: MacronutrientValues;
+  // Absent when looked up by ID in bulk
+  match?: MatchExplanation;
+  cache?: CacheInfo;
+}
+
+const SEARCH_CACHE_OPTIONS: CacheOptions = {
+  ttlSeconds: env.USDA_CACHE_SEARCH_TTL_SECONDS,
+  staleSeconds: env.USDA_CACHE_STALE_SECONDS,
+};
+
+const DETAIL_CACHE_OPTIONS: CacheOptions = {
+  ttlSeconds: env.USDA_CACHE_DETAIL_TTL_SECONDS,
+  staleSeconds: env.USDA_CACHE_STALE_SECONDS,
+};
+
+const foodCacheKey = (fdcId: number) => `usda:food:v1:${fdcId}`;
+
+// Other candidates listed alongside a fuzzy match
+const MATCH_ALTERNATIVE_COUNT = 3;
 
 class USDAService {
-  private readonly apiKey: string;
-  private readonly baseUrl: string = 'https://api.nal.usda.gov/fdc/v1';
+  constructor(
+    private readonly provider: FoodProvider = createFoodProvider(),
+    // Searched alongside USDA; their foods are ranked together with USDA results
+    private readonly additionalProviders: FoodProvider[] = createAdditionalProviders(),
+  ) {}
 
-  constructor() {
-    this.apiKey = env.USDA_API_KEY;
+  /**
+   * Search for foods using the configured food provider
+   */
+  async searchFoods(query: string, pageSize: number = 25): Promise<USDAFood[]> {
+    const { value } = await this.searchFoodsPage(query, { pageSize });
+    return value.foods;
   }
 
   /**
-   * Search for foods using the USDA API
+   * One page of search results, optionally filtered by data type and brand owner.
+   * API results are cached on the normalized query and filters.
    */
-  async searchFoods(query: string, pageSize: number = 25): Promise<USDAFood[]> {
-    try {
-      // Use POST request with JSON body as recommended by USDA API documentation
-      const requestBody = {
-        query: query.trim(),
-        dataType: ['Foundation', 'SR Legacy', 'Survey (FNDDS)', 'Branded'],
-        pageSize: Math.min(pageSize, 200), // API limit
-        sortBy: 'dataType.keyword',
-        sortOrder: 'asc'
-      };
+  async searchFoodsPage(query: string, options: FoodSearchOptions = {}): Promise<MaybeCached<USDASearchResponse>> {
+    if (!this.provider.cacheable) {
+      return { value: await this.provider.search(query, options) };
+    }
 
-      const response: AxiosResponse<USDASearchResponse> = await axios.post(
-        `${this.baseUrl}/foods/search`,
-        requestBody,
-        {
-          params: {
-            api_key: this.apiKey,
-          },
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          timeout: 10000, // 10 second timeout
-        }
-      );
+    const key = [
+      'usda:search:v1',
+      [...(options.dataType ?? USDA_DATA_TYPES)].sort().join(','),
+      (options.brandOwner ?? '').trim().toLowerCase(),
+      options.pageNumber ?? 1,
+      options.pageSize ?? 25,
+      query.trim().toLowerCase().replace(/\s+/g, ' '),
+    ].join(':');
 
-      if (!response.data || !Array.isArray(response.data.foods)) {
-        throw new Error('Invalid response from USDA API');
-      }
+    return cacheService.getOrFetch(key, () => this.provider.search(query, options), SEARCH_CACHE_OPTIONS);
+  }
 
-      return response.data.foods;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        // Log the error response and data
-        logger.error('Error response from USDA API:', {
-          status: error.response?.status,
-          data: error.response?.data,
-          headers: error.response?.headers
-        });
-        if (error.response?.status === 400) {
-          throw new Error('Invalid search query for USDA API');
-        } else if (error.response?.status === 403) {
-          throw new Error('Invalid USDA API key');
-        } else if (error.code === 'ECONNABORTED') {
-          throw new Error('USDA API request timeout');
-        }
-      }
-      logger.error('Error searching foods:', error);
-      throw new Error('Failed to search foods from USDA API');
+  /**
+   * A single food by FDC ID, cached when it comes from the API
+   */
+  async getFoodById(fdcId: number): Promise<MaybeCached<USDAFood>> {
+    if (!this.provider.cacheable) {
+      return { value: await this.fetchFoodById(fdcId) };
     }
+
+    return cacheService.getOrFetch(foodCacheKey(fdcId), () => this.fetchFoodById(fdcId), DETAIL_CACHE_OPTIONS);
+  }
+
+  private async fetchFoodById(fdcId: number): Promise<USDAFood> {
+    const food = await this.provider.getFood(fdcId);
+    if (!food) {
+      throw new Error(`No foods found for FDC ID ${fdcId}.`);
+    }
+    return food;
   }
 
   /**
-   * Find the best matching food item using enhanced fuzzy matching
+   * Several foods by FDC ID; cached foods are reused and the rest fetched in one request.
+   * IDs that aren't found are left out.
    */
-  private findBestMatch(foods: USDAFood[], query: string): USDAFood | null {
-    if (foods.length === 0) return null;
+  async getFoodsByIds(fdcIds: number[]): Promise<USDAFood[]> {
+    if (!this.provider.cacheable) {
+      return this.provider.getFoods(fdcIds);
+    }
 
-    const normalizedQuery = query.toLowerCase().trim();
-    
-    // Helper function to safely get description
-    const getDescription = (food: USDAFood): string => {
-      return food.description || '';
+    const cached = await Promise.all(
+      fdcIds.map(fdcId => cacheService.peek<USDAFood>(foodCacheKey(fdcId), DETAIL_CACHE_OPTIONS))
+    );
+    const foods = cached.flatMap(entry => (entry ? [entry.value] : []));
+    const missingIds = fdcIds.filter((_, index) => !cached[index]);
+
+    const fetched = await this.provider.getFoods(missingIds);
+    await Promise.all(fetched.map(food => cacheService.put(foodCacheKey(food.fdcId), food, DETAIL_CACHE_OPTIONS)));
+
+    return [...foods, ...fetched];
+  }
+
+  /**
+   * Find a branded food by its barcode (GTIN/UPC)
+   */
+  async getFoodByBarcode(gtin: string): Promise<MaybeCached<USDAFood>> {
+    if (!this.provider.cacheable) {
+      return { value: await this.fetchFoodByBarcode(gtin) };
+    }
+
+    // Leading zeros vary between UPC-A and EAN/GTIN forms of the same code
+    const key = `usda:barcode:v1:${gtin.replace(/^0+/, '')}`;
+    return cacheService.getOrFetch(key, () => this.fetchFoodByBarcode(gtin), DETAIL_CACHE_OPTIONS);
+  }
+
+  private async fetchFoodByBarcode(gtin: string): Promise<USDAFood> {
+    const food = await this.provider.findByBarcode(gtin);
+    if (food) return food;
+
+    // Packaged foods sold outside the US are often only in other providers
+    for (const provider of this.additionalProviders) {
+      const match = await provider.findByBarcode(gtin);
+      if (match) return match;
+    }
+
+    throw new Error(`No foods found for barcode ${gtin}.`);
+  }
+
+  /**
+   * Search USDA and every additional provider, merging their results for one page.
+   * A failing additional provider is logged and left out rather than failing the search.
+   */
+  private async searchAllProviders(query: string, options: FoodSearchOptions = {}): Promise<MaybeCached<USDASearchResponse>> {
+    const [usda, ...others] = await Promise.all([
+      this.searchFoodsPage(query, options),
+      ...this.additionalProviders.map(provider =>
+        provider.search(query, options).catch(error => {
+          logger.warn('Food provider search failed', { provider: provider.name, query, error });
+          return null;
+        })
+      ),
+    ]);
+
+    const responses = [usda!.value, ...others.flatMap(response => (response ? [response] : []))];
+    return {
+      value: {
+        ...usda!.value,
+        totalHits: responses.reduce((total, response) => total + (response.totalHits ?? 0), 0),
+        totalPages: Math.max(...responses.map(response => response.totalPages ?? 0)),
+        foods: responses.flatMap(response => response.foods),
+      },
+      ...(usda!.cache && { cache: usda!.cache }),
     };
-    
-    // Helper function to safely get lowercase description
-    const getLowercaseDescription = (food: USDAFood): string => {
-      return food.lowercaseDescription || '';
+  }
+
+  /**
+   * Convert a food into the normalized detail shape returned by /foods/:fdcId
+   */
+  formatFoodDetails(food: USDAFood): FoodDetailsResponse {
+    const caloriesPer100g = this.extractCaloriesPer100g(food);
+
+    return {
+      provider: food.provider ?? 'usda',
+      fdc_id: this.fdcIdOf(food),
+      description: food.description,
+      data_type: food.dataType,
+      published_date: food.publishedDate,
+      brand_owner: food.brandOwner ?? null,
+      brand_name: food.brandName ?? null,
+      gtin_upc: food.gtinUpc ?? null,
+      category: food.foodCategory?.description ?? null,
+      ingredients: food.ingredients ?? null,
+      serving_size: food.servingSize && food.servingSizeUnit ? {
+        amount: food.servingSize,
+        unit: food.servingSizeUnit,
+        household: food.householdServingFullText ?? null,
+      } : null,
+      calories_per_100g: caloriesPer100g > 0 ? caloriesPer100g : null,
+      macronutrients_per_100g: scaleMacronutrients(this.extractMacronutrientsPer100g(food), 1),
+      nutrients: food.foodNutrients.map(nutrient => ({
+        id: nutrient.nutrientId,
+        number: nutrient.nutrientNumber,
+        name: nutrient.nutrientName,
+        amount: nutrient.value,
+        unit: nutrient.unitName,
+      })),
+      portions: this.listPortions(food),
     };
-    
-    // Priority 1: Exact match (case-insensitive)
-    const exactMatch = foods.find(food => {
-      const desc = getDescription(food);
-      const lowerDesc = getLowercaseDescription(food);
-      return desc.toLowerCase() === normalizedQuery || lowerDesc === normalizedQuery;
-    });
-    if (exactMatch) return exactMatch;
+  }
 
-    // Priority 2: Description starts with query
-    const startsWithMatch = foods.find(food => {
-      const desc = getDescription(food);
-      const lowerDesc = getLowercaseDescription(food);
-      return desc.toLowerCase().startsWith(normalizedQuery) || lowerDesc.startsWith(normalizedQuery);
-    });
-    if (startsWithMatch) return startsWithMatch;
+  /**
+   * Search every provider and return ranked candidates for the user to choose from
+   */
+  async searchCandidates(query: string, options: FoodSearchOptions = {}): Promise<FoodSearchResponse> {
+    const { value: response, cache } = await this.searchAllProviders(query, options);
 
-    // Priority 3: Description contains full query
-    const containsMatch = foods.find(food => {
-      const desc = getDescription(food);
-      const lowerDesc = getLowercaseDescription(food);
-      return desc.toLowerCase().includes(normalizedQuery) || lowerDesc.includes(normalizedQuery);
-    });
-    if (containsMatch) return containsMatch;
+    return {
+      query,
+      page: response.currentPage ?? options.pageNumber ?? 1,
+      page_size: options.pageSize ?? 25,
+      total_pages: response.totalPages ?? 0,
+      total_hits: response.totalHits ?? 0,
+      foods: rankFoods(response.foods, query).map(({ food, matchScore, isBestMatch }) => {
+        const caloriesPer100g = this.extractCaloriesPer100g(food);
+        return {
+          provider: food.provider ?? 'usda',
+          fdc_id: this.fdcIdOf(food),
+          gtin_upc: food.gtinUpc ?? null,
+          description: food.description,
+          match_score: matchScore,
+          is_best_match: isBestMatch,
+          data_type: food.dataType,
+          brand: food.brandOwner ?? food.brandName ?? null,
+          category: food.foodCategory?.description ?? null,
+          calories_per_100g: caloriesPer100g > 0 ? caloriesPer100g : null,
+          portions: this.listPortions(food),
+        };
+      }),
+      ...(cache && { cache }),
+    };
+  }
 
-    // Priority 4: Comprehensive scoring based on multiple factors
-    const queryWords = normalizedQuery.split(/\s+/).filter(word => word.length > 0);
-    
-    const scoredFoods = foods.map(food => {
-      const foodDesc = getDescription(food).toLowerCase();
-      const foodWords = foodDesc.split(/\s+/);
-      
-      let score = 0;
-      
-      // Word matching score
-      const matchingWords = queryWords.filter(queryWord => 
-        foodWords.some(foodWord => 
-          foodWord.includes(queryWord) || queryWord.includes(foodWord)
-        )
-      );
-      score += (matchingWords.length / queryWords.length) * 100;
-      
-      // Boost score for data type priority
-      if (food.dataType === 'Foundation') score += 20;
-      else if (food.dataType === 'SR Legacy') score += 15;
-      else if (food.dataType === 'Survey (FNDDS)') score += 10;
-      
-      // Boost score if food has calorie information
-      const hasCalories = food.foodNutrients && food.foodNutrients.some(nutrient => 
-        nutrient.nutrientId === ENERGY_NUTRIENT_IDS.ENERGY_KCAL && nutrient.value > 0
-      );
-      if (hasCalories) score += 10;
-      
-      // Penalize very long descriptions (usually less relevant)
-      if (foodDesc.length > 100) score -= 5;
-      
-      return { food, score };
-    });
+  /**
+   * FDC ID of a USDA food, or null for foods from other providers
+   */
+  private fdcIdOf(food: USDAFood): number | null {
+    return food.provider && food.provider !== 'usda' ? null : food.fdcId;
+  }
 
-    // Sort by score descending
-    scoredFoods.sort((a, b) => b.score - a.score);
-    
-    // Return best match if it has a reasonable score, otherwise return first food
-    const bestScored = scoredFoods[0];
-    if (bestScored && bestScored.score > 20) {
-      return bestScored.food;
+  /**
+   * Portion options for a food: the label serving, then its USDA measures
+   */
+  private listPortions(food: USDAFood): FoodPortionOption[] {
+    const portions: FoodPortionOption[] = [];
+
+    if (food.servingSize && food.servingSize > 0 && food.servingSizeUnit?.toLowerCase().includes('g')) {
+      portions.push({
+        description: food.householdServingFullText || `${food.servingSize} ${food.servingSizeUnit}`,
+        gram_weight: food.servingSize,
+      });
     }
-    
-    // Fallback to first food if available
-    return foods[0] || null;
+
+    for (const measure of food.foodMeasures ?? []) {
+      if (measure.gramWeight > 0) {
+        portions.push({ description: measure.disseminationText, gram_weight: measure.gramWeight });
+      }
+    }
+
+    return portions;
   }
 
   /**
@@ -173,6 +317,25 @@ class USDAService {
     };
   }
 
+  /**
+   * Extract micronutrient amounts per 100g, leaving out nutrients the food doesn't report
+   */
+  private extractMicronutrientsPer100g(food: USDAFood): MicronutrientAmounts {
+    const amounts: MicronutrientAmounts = {};
+
+    for (const { key, sources } of MICRONUTRIENTS) {
+      for (const source of sources) {
+        const nutrient = food.foodNutrients.find(n => n.nutrientId === source.nutrientId);
+        if (nutrient) {
+          amounts[key] = nutrient.value * ('factor' in source ? source.factor : 1);
+          break;
+        }
+      }
+    }
+
+    return amounts;
+  }
+
   /**
    * Extract calories per 100g from food nutrients
    */
@@ -202,164 +365,294 @@ class USDAService {
    * Calculate serving size in grams
    */
   private calculateServingSize(food: USDAFood): number {
-    // Use provided serving size if available
-    if (food.servingSize && food.servingSize > 0) {
-      // Convert to grams if needed
-      if (food.servingSizeUnit?.toLowerCase().includes('g')) {
-        return food.servingSize;
-      }
-      // For other units, use food measures if available
-      if (food.foodMeasures && food.foodMeasures.length > 0) {
-        const measure = food.foodMeasures.find(m => 
-          m.measureUnitName.toLowerCase().includes(food.servingSizeUnit?.toLowerCase() || '')
-        );
-        if (measure) {
-          return measure.gramWeight * food.servingSize;
-        }
-      }
+    return resolveServingSize(food).grams;
+  }
+
+  /**
+   * Search for a food and pick the best match that has energy data
+   */
+  private async resolveFood(query: string, options: CalculationOptions = {}): Promise<ResolvedFood> {
+    const { value: { foods }, cache } = await this.searchAllProviders(query);
+    
+    if (foods.length === 0) {
+      throw new Error(`No foods found for "${query}". Try a more specific or common food name.`);
     }
+
+    const best = findBestMatch(foods, query);
     
-    // Use first food measure if available
-    if (food.foodMeasures && food.foodMeasures.length > 0) {
-      const primaryMeasure = food.foodMeasures[0];
-      if (primaryMeasure) {
-        return primaryMeasure.gramWeight;
-      }
+    if (!best) {
+      throw new Error(`No suitable match found for "${query}". Try a different search term.`);
     }
+
+    const bestMatch = best.food;
+    const match = this.explainMatch(foods, query, best.rule);
+
+    logger.debug(`USDA food match found`, {
+      query,
+      matchedFood: bestMatch.description,
+      fdcId: bestMatch.fdcId,
+      dataType: bestMatch.dataType,
+      rule: match.rule,
+      confidence: match.confidence,
+    });
+
+    if (options.strict && match.confidence < STRICT_MATCH_MIN_CONFIDENCE) {
+      throw new Error(
+        `No suitable match found for "${query}". The closest food, "${bestMatch.description}", has confidence ` +
+        `${match.confidence}, below the ${STRICT_MATCH_MIN_CONFIDENCE} required in strict mode.`
+      );
+    }
+
+    const caloriesPer100g = this.extractCaloriesPer100g(bestMatch);
     
-    // Default to 100g
-    return 100;
+    if (caloriesPer100g === 0) {
+      throw new Error(`No calorie information available for "${query}". The food "${bestMatch.description}" does not have energy data.`);
+    }
+
+    return {
+      food: bestMatch,
+      caloriesPer100g,
+      macronutrientsPer100g: this.extractMacronutrientsPer100g(bestMatch),
+      match,
+      ...(cache && { cache }),
+    };
   }
 
   /**
-   * Calculate calories for a dish and servings
+   * Describe how the best match was chosen, with the next best candidates
    */
-  async calculateCalories(dishName: string, servings: number): Promise<CalorieResponse> {
-    try {
-      if (!dishName || dishName.trim().length === 0) {
-        throw new Error('Dish name cannot be empty');
-      }
+  private explainMatch(foods: USDAFood[], query: string, rule: MatchRule): MatchExplanation {
+    const ranked = rankFoods(foods, query);
+    const best = ranked.find(candidate => candidate.isBestMatch);
 
-      if (servings <= 0) {
-        throw new Error('Servings must be a positive number');
-      }
+    return {
+      rule,
+      confidence: (best?.matchScore ?? 0) / 100,
+      alternatives: ranked
+        .filter(candidate => !candidate.isBestMatch)
+        .slice(0, MATCH_ALTERNATIVE_COUNT)
+        .map(({ food, matchScore }) => {
+          const caloriesPer100g = this.extractCaloriesPer100g(food);
+          return {
+            provider: food.provider ?? 'usda',
+            fdc_id: this.fdcIdOf(food),
+            description: food.description,
+            data_type: food.dataType,
+            calories_per_100g: caloriesPer100g > 0 ? caloriesPer100g : null,
+            match_score: matchScore,
+          };
+        }),
+    };
+  }
 
-      const foods = await this.searchFoods(dishName);
-      
-      if (foods.length === 0) {
-        throw new Error(`No foods found for "${dishName}". Try a more specific or common food name.`);
-      }
+  /**
+   * Look up a food by FDC ID and extract its per-100g nutrition
+   */
+  async resolveFoodById(fdcId: number): Promise<ResolvedFood> {
+    const { value: food, cache } = await this.getFoodById(fdcId);
+    const caloriesPer100g = this.extractCaloriesPer100g(food);
 
-      const bestMatch = this.findBestMatch(foods, dishName);
-      
-      if (!bestMatch) {
-        throw new Error(`No suitable match found for "${dishName}". Try a different search term.`);
-      }
+    if (caloriesPer100g === 0) {
+      throw new Error(`No calorie information available for FDC ID ${fdcId}. The food "${food.description}" does not have energy data.`);
+    }
 
-      logger.debug(`USDA food match found`, {
-        query: dishName,
-        matchedFood: bestMatch.description,
-        fdcId: bestMatch.fdcId,
-        dataType: bestMatch.dataType
-      });
+    return {
+      food,
+      caloriesPer100g,
+      macronutrientsPer100g: this.extractMacronutrientsPer100g(food),
+      match: { rule: 'fdc_id', confidence: 1, alternatives: [] },
+      ...(cache && { cache }),
+    };
+  }
+
+  /**
+   * Look up several foods by FDC ID at once and extract their per-100g nutrition
+   */
+  async resolveFoodsByIds(fdcIds: number[]): Promise<Map<number, ResolvedFood>> {
+    const uniqueIds = [...new Set(fdcIds)];
+    const foods = await this.getFoodsByIds(uniqueIds);
+    const resolved = new Map<number, ResolvedFood>();
 
-      const caloriesPer100g = this.extractCaloriesPer100g(bestMatch);
-      
+    for (const food of foods) {
+      const caloriesPer100g = this.extractCaloriesPer100g(food);
       if (caloriesPer100g === 0) {
-        throw new Error(`No calorie information available for "${dishName}". The food "${bestMatch.description}" does not have energy data.`);
+        throw new Error(`No calorie information available for FDC ID ${food.fdcId}. The food "${food.description}" does not have energy data.`);
       }
+      resolved.set(food.fdcId, {
+        food,
+        caloriesPer100g,
+        macronutrientsPer100g: this.extractMacronutrientsPer100g(food),
+      });
+    }
 
-      // Extract macronutrients per 100g
-      const macronutrientsPer100g = this.extractMacronutrientsPer100g(bestMatch);
-
-      // Calculate serving size in grams
-      const servingSizeGrams = this.calculateServingSize(bestMatch);
-      const caloriesPerServing = Math.round((caloriesPer100g * servingSizeGrams) / 100);
-      const totalCalories = Math.round(caloriesPerServing * servings);
-
-      // Calculate macronutrients per serving and total
-      const macronutrientsPerServing = {
-        protein: Math.round((macronutrientsPer100g.protein * servingSizeGrams) / 100 * 10) / 10,
-        total_fat: Math.round((macronutrientsPer100g.total_fat * servingSizeGrams) / 100 * 10) / 10,
-        carbohydrates: Math.round((macronutrientsPer100g.carbohydrates * servingSizeGrams) / 100 * 10) / 10,
-        ...(macronutrientsPer100g.fiber && { 
-          fiber: Math.round((macronutrientsPer100g.fiber * servingSizeGrams) / 100 * 10) / 10 
-        }),
-        ...(macronutrientsPer100g.sugars && { 
-          sugars: Math.round((macronutrientsPer100g.sugars * servingSizeGrams) / 100 * 10) / 10 
-        }),
-        ...(macronutrientsPer100g.saturated_fat && { 
-          saturated_fat: Math.round((macronutrientsPer100g.saturated_fat * servingSizeGrams) / 100 * 10) / 10 
-        }),
-      };
+    const missing = uniqueIds.find(id => !resolved.has(id));
+    if (missing !== undefined) {
+      throw new Error(`No foods found for FDC ID ${missing}.`);
+    }
 
-      const totalMacronutrients = {
-        protein: Math.round(macronutrientsPerServing.protein * servings * 10) / 10,
-        total_fat: Math.round(macronutrientsPerServing.total_fat * servings * 10) / 10,
-        carbohydrates: Math.round(macronutrientsPerServing.carbohydrates * servings * 10) / 10,
-        ...(macronutrientsPerServing.fiber && { 
-          fiber: Math.round(macronutrientsPerServing.fiber * servings * 10) / 10 
-        }),
-        ...(macronutrientsPerServing.sugars && { 
-          sugars: Math.round(macronutrientsPerServing.sugars * servings * 10) / 10 
-        }),
-        ...(macronutrientsPerServing.saturated_fat && { 
-          saturated_fat: Math.round(macronutrientsPerServing.saturated_fat * servings * 10) / 10 
-        }),
+    return resolved;
+  }
+
+  /**
+   * Build an ingredient breakdown row for a resolved food
+   */
+  private buildIngredientBreakdown(resolved: ResolvedFood, servingSizeGrams: number): IngredientBreakdown {
+    const { food, caloriesPer100g, macronutrientsPer100g } = resolved;
+
+    return {
+      name: food.description,
+      calories_per_100g: caloriesPer100g,
+      macronutrients_per_100g: scaleMacronutrients(macronutrientsPer100g, 1),
+      serving_size: `${servingSizeGrams}g`,
+      data_type: food.dataType,
+      ...(this.fdcIdOf(food) !== null && { fdc_id: food.fdcId }),
+      provider: food.provider ?? 'usda',
+      ...(food.brandOwner && { brand: food.brandOwner }),
+      ...(food.foodCategory && { category: food.foodCategory.description })
+    };
+  }
+
+  /**
+   * Convert an ingredient quantity to grams for the matched food
+   */
+  quantityToGrams(food: USDAFood, quantity: number, unit: FoodUnit): number {
+    return resolvePortion(food, quantity, unit).total_grams;
+  }
+
+  /**
+   * Re-throw user-friendly errors as-is and hide everything else behind a generic message
+   */
+  private rethrowCalculationError(error: unknown, fallbackMessage: string): never {
+    // Re-throw with original message if it's already a user-friendly error
+    if (error instanceof Error && (
+      error.message.includes('No foods found') ||
+      error.message.includes('No suitable match found') ||
+      error.message.includes('No calorie information available') ||
+      error.message.includes('Dish name cannot be empty') ||
+      error.message.includes('Servings must be positive') ||
+      error.message.includes('Quantity must be a positive number')
+    )) {
+      throw error;
+    }
+    
+    // Generic error for unexpected issues
+    throw new Error(fallbackMessage);
+  }
+
+  /**
+   * Build a calorie response for a resolved food and an amount in any food unit
+   */
+  private buildCalorieResponse(
+    dishName: string,
+    resolved: ResolvedFood,
+    quantity: number,
+    unit: FoodUnit,
+    options: CalculationOptions
+  ): CalorieResponse {
+    const { food: bestMatch, caloriesPer100g, macronutrientsPer100g } = resolved;
+
+    // Calculate serving size in grams
+    const servingSizeGrams = this.calculateServingSize(bestMatch);
+    const caloriesPerServing = Math.round((caloriesPer100g * servingSizeGrams) / 100);
+    const macronutrientsPerServing = scaleMacronutrients(macronutrientsPer100g, servingSizeGrams / 100);
+    const portion = resolvePortion(bestMatch, quantity, unit);
+
+    // Servings keep the per-serving math; other units are totalled from the resolved gram weight
+    let servings = quantity;
+    let totals;
+    if (unit === 'serving') {
+      totals = calculateTotals(caloriesPerServing, macronutrientsPerServing, servings);
+    } else {
+      servings = Math.round((portion.total_grams / servingSizeGrams) * 100) / 100;
+      const nutrition = calculateNutritionForGrams(caloriesPer100g, macronutrientsPer100g, portion.total_grams);
+      totals = { totalCalories: nutrition.calories, totalMacronutrients: nutrition.macronutrients };
+    }
+
+    let micronutrients: Pick<CalorieResponse, 'micronutrients_per_serving' | 'total_micronutrients'> = {};
+    if (options.includeMicronutrients) {
+      const per100g = this.extractMicronutrientsPer100g(bestMatch);
+      const totalGrams = unit === 'serving' ? servingSizeGrams * quantity : portion.total_grams;
+      micronutrients = {
+        micronutrients_per_serving: formatMicronutrients(scaleMicronutrientAmounts(per100g, servingSizeGrams / 100)),
+        total_micronutrients: formatMicronutrients(scaleMicronutrientAmounts(per100g, totalGrams / 100)),
       };
+    }
 
-      // Build ingredient breakdown with additional info
-      const ingredientBreakdown = [{
+    return {
+      dish_name: dishName,
+      servings,
+      calories_per_serving: caloriesPerServing,
+      total_calories: totals.totalCalories,
+      macronutrients_per_serving: macronutrientsPerServing,
+      total_macronutrients: totals.totalMacronutrients,
+      ...micronutrients,
+      source: FOOD_PROVIDER_NAMES[bestMatch.provider ?? 'usda'],
+      ingredient_breakdown: [this.buildIngredientBreakdown(resolved, servingSizeGrams)],
+      portion,
+      ...(resolved.match && { match: resolved.match }),
+      // Additional metadata
+      matched_food: {
         name: bestMatch.description,
-        calories_per_100g: caloriesPer100g,
-        macronutrients_per_100g: {
-          protein: Math.round(macronutrientsPer100g.protein * 10) / 10,
-          total_fat: Math.round(macronutrientsPer100g.total_fat * 10) / 10,
-          carbohydrates: Math.round(macronutrientsPer100g.carbohydrates * 10) / 10,
-          ...(macronutrientsPer100g.fiber && { fiber: Math.round(macronutrientsPer100g.fiber * 10) / 10 }),
-          ...(macronutrientsPer100g.sugars && { sugars: Math.round(macronutrientsPer100g.sugars * 10) / 10 }),
-          ...(macronutrientsPer100g.saturated_fat && { saturated_fat: Math.round(macronutrientsPer100g.saturated_fat * 10) / 10 }),
-        },
-        serving_size: `${servingSizeGrams}g`,
+        provider: bestMatch.provider ?? 'usda',
+        fdc_id: this.fdcIdOf(bestMatch),
         data_type: bestMatch.dataType,
-        fdc_id: bestMatch.fdcId,
-        ...(bestMatch.brandOwner && { brand: bestMatch.brandOwner }),
-        ...(bestMatch.foodCategory && { category: bestMatch.foodCategory.description })
-      }];
-
-      return {
-        dish_name: dishName,
-        servings,
-        calories_per_serving: caloriesPerServing,
-        total_calories: totalCalories,
-        macronutrients_per_serving: macronutrientsPerServing,
-        total_macronutrients: totalMacronutrients,
-        source: 'USDA FoodData Central',
-        ingredient_breakdown: ingredientBreakdown,
-        // Additional metadata
-        matched_food: {
-          name: bestMatch.description,
-          fdc_id: bestMatch.fdcId,
-          data_type: bestMatch.dataType,
-          published_date: bestMatch.publishedDate
-        }
-      };
+        published_date: bestMatch.publishedDate
+      },
+      ...(resolved.cache && { cache: resolved.cache }),
+    };
+  }
+
+  /**
+   * Calculate calories for a dish and an amount, given as servings or as a quantity in any food unit
+   */
+  async calculateCalories(
+    dishName: string,
+    quantity: number,
+    unit: FoodUnit = 'serving',
+    options: CalculationOptions = {}
+  ): Promise<CalorieResponse> {
+    try {
+      if (!dishName || dishName.trim().length === 0) {
+        throw new Error('Dish name cannot be empty');
+      }
+
+      if (quantity <= 0) {
+        throw new Error(unit === 'serving' ? 'Servings must be a positive number' : 'Quantity must be a positive number');
+      }
+
+      const resolved = await this.resolveFood(dishName, options);
+      return this.buildCalorieResponse(dishName, resolved, quantity, unit, options);
     } catch (error) {
       logger.error('Error calculating calories:', error);
-      
-      // Re-throw with original message if it's already a user-friendly error
-      if (error instanceof Error && (
-        error.message.includes('No foods found') ||
-        error.message.includes('No suitable match found') ||
-        error.message.includes('No calorie information available') ||
-        error.message.includes('Dish name cannot be empty') ||
-        error.message.includes('Servings must be positive')
-      )) {
-        throw error;
+      return this.rethrowCalculationError(
+        error,
+        'Unable to calculate calories. Please try again or use a different food name.'
+      );
+    }
+  }
+
+  /**
+   * Calculate calories for an exact USDA food, skipping fuzzy matching
+   */
+  async calculateCaloriesById(
+    fdcId: number,
+    quantity: number,
+    unit: FoodUnit = 'serving',
+    options: CalculationOptions = {}
+  ): Promise<CalorieResponse> {
+    try {
+      if (quantity <= 0) {
+        throw new Error(unit === 'serving' ? 'Servings must be a positive number' : 'Quantity must be a positive number');
       }
-      
-      // Generic error for unexpected issues
-      throw new Error('Unable to calculate calories. Please try again or use a different food name.');
+
+      const resolved = await this.resolveFoodById(fdcId);
+      return this.buildCalorieResponse(resolved.food.description, resolved, quantity, unit, options);
+    } catch (error) {
+      logger.error('Error calculating calories by FDC ID:', error);
+      return this.rethrowCalculationError(
+        error,
+        'Unable to calculate calories. Please try again or use a different FDC ID.'
+      );
     }
   }
 }
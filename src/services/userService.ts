@@ -0,0 +1,141 @@
+import bcrypt from 'bcryptjs';
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { passwordResetTokens, users, type User } from '../db/schema';
+import { UpdateProfileRequest, UserProfile } from '../types';
+import logger from '../utils/logger';
+import accountService from './accountService';
+import sessionService from './sessionService';
+
+class UserService {
+  /**
+   * Convert a user row into the snake_case profile shape, leaving out the password hash
+   */
+  formatProfile(user: User): UserProfile {
+    return {
+      id: user.id,
+      first_name: user.firstName,
+      last_name: user.lastName,
+      email: user.email,
+      email_verified: user.emailVerifiedAt !== null,
+      role: user.role,
+      plan: user.plan,
+      timezone: user.timezone,
+      preferred_units: user.preferredUnits,
+      dietary_preferences: user.dietaryPreferences,
+      created_at: user.createdAt.toISOString(),
+      updated_at: user.updatedAt.toISOString(),
+    };
+  }
+
+  async getById(userId: number): Promise<User | null> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    return user ?? null;
+  }
+
+  /**
+   * Load the user and check their password before a sensitive change
+   */
+  private async verifyPassword(userId: number, password: string): Promise<User> {
+    const user = await this.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!(await bcrypt.compare(password, user.passwordHash))) {
+      throw new Error('Password is incorrect');
+    }
+
+    return user;
+  }
+
+  /**
+   * Update the given profile fields. A new email address is unverified until the user follows the link
+   * mailed to it, and links sent to the old address stop working.
+   */
+  async updateProfile(userId: number, data: UpdateProfileRequest): Promise<User> {
+    const current = data.current_password !== undefined
+      ? await this.verifyPassword(userId, data.current_password)
+      : await this.getById(userId);
+
+    if (!current) {
+      throw new Error('User not found');
+    }
+
+    const emailChanged = data.email !== undefined && data.email !== current.email;
+
+    if (emailChanged) {
+      const [existingUser] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.email, data.email!))
+        .limit(1);
+
+      if (existingUser) {
+        throw new Error('User with this email already exists');
+      }
+    }
+
+    const [user] = await db
+      .update(users)
+      .set({
+        ...(data.first_name !== undefined && { firstName: data.first_name }),
+        ...(data.last_name !== undefined && { lastName: data.last_name }),
+        ...(emailChanged && { email: data.email!, emailVerifiedAt: null }),
+        ...(data.timezone !== undefined && { timezone: data.timezone }),
+        ...(data.preferred_units !== undefined && { preferredUnits: data.preferred_units }),
+        ...(data.dietary_preferences !== undefined && { dietaryPreferences: data.dietary_preferences }),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (emailChanged) {
+      await accountService.invalidateOutstandingTokens(userId);
+
+      // As at registration, sent off the request path and a mail outage doesn't undo the change;
+      // the link can be requested again
+      accountService.sendVerificationEmail(user!).catch((error) => {
+        logger.warn('Failed to send verification email', { userId, error });
+      });
+    }
+
+    return user!;
+  }
+
+  /**
+   * Replace the password and revoke every other session; the session making the change (if any) stays logged in.
+   * Returns how many sessions were revoked.
+   */
+  async changePassword(userId: number, sessionId: string | undefined, currentPassword: string, newPassword: string): Promise<number> {
+    await this.verifyPassword(userId, currentPassword);
+
+    const saltRounds = 12;
+    const passwordHash = await bcrypt.hash(newPassword, saltRounds);
+    const now = new Date();
+
+    await db
+      .update(users)
+      .set({ passwordHash, updatedAt: now })
+      .where(eq(users.id, userId));
+
+    // Reset links requested before the change would otherwise still override the new password
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+
+    return sessionService.revokeAllSessions(userId, 'password_change', sessionId);
+  }
+
+  /**
+   * Delete the account. Diary entries, goals, custom foods, recipes, corrections, sessions, tokens,
+   * API keys and coach sharing are removed with it by their foreign keys.
+   */
+  async deleteAccount(userId: number, password: string): Promise<void> {
+    await this.verifyPassword(userId, password);
+    await db.delete(users).where(eq(users.id, userId));
+  }
+}
+
+export default new UserService();
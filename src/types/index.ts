@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { isValidDateString, isValidTimeZone, countDaysInclusive } from '../utils/dates';
+import { normalizeUnit } from '../utils/units';
 
 // Authentication Schemas
 export const registerSchema = z.object({
@@ -13,12 +15,500 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+export const refreshTokenSchema = z.object({
+  refresh_token: z.string().min(1, 'Refresh token is required'),
+});
+
+// Used by both forgot-password and resend-verification
+export const accountEmailSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+// Shared Schemas
+export const MASS_UNITS = ['g', 'kg', 'mg', 'oz', 'lb'] as const;
+export const VOLUME_UNITS = ['ml', 'l', 'cup', 'tbsp', 'tsp', 'fl_oz'] as const;
+export const HOUSEHOLD_UNITS = ['serving', 'piece', 'slice', 'small', 'medium', 'large'] as const;
+export const FOOD_UNITS = [...MASS_UNITS, ...VOLUME_UNITS, ...HOUSEHOLD_UNITS] as const;
+
+// Accepts common spellings ("tablespoons", "fl oz", "grams") and yields the canonical unit
+export const foodUnitSchema = z.string().trim().min(1, 'Unit is required').transform((value, ctx) => {
+  const unit = normalizeUnit(value);
+  if (!unit) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown unit "${value}". Use a mass (g, kg, mg, oz, lb), volume (ml, l, cup, tbsp, tsp, fl oz) or household unit (serving, piece, slice, small, medium, large)`,
+    });
+    return z.NEVER;
+  }
+  return unit;
+});
+
+export const macronutrientsSchema = z.object({
+  protein: z.number().nonnegative(),
+  total_fat: z.number().nonnegative(),
+  carbohydrates: z.number().nonnegative(),
+  fiber: z.number().nonnegative().optional(),
+  sugars: z.number().nonnegative().optional(),
+  saturated_fat: z.number().nonnegative().optional(),
+});
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, {
+  message: 'timezone must be a valid IANA time zone (e.g. Europe/Berlin)',
+});
+
 // Calorie Calculation Schema
+// The amount can be given as servings, as quantity + unit, or as free text in dish_name ("2 tbsp peanut butter")
 export const getCaloriesSchema = z.object({
+  dish_name: z.string().min(1, 'Dish name is required').optional(),
+  // An exact USDA food, skipping fuzzy matching
+  fdc_id: z.number().int().positive('FDC ID must be a positive integer').optional(),
+  servings: z.number().positive('Servings must be a positive number').optional(),
+  quantity: z.number().positive('Quantity must be a positive number').optional(),
+  unit: foodUnitSchema.optional(),
+  // Used to find "today" when reporting progress against the user's goals; defaults to the profile's time zone
+  timezone: timeZoneSchema.optional(),
+  // Fail with 404 instead of returning a match below STRICT_MATCH_MIN_CONFIDENCE
+  strict: z.boolean().default(false),
+}).refine(
+  (data) => (data.dish_name === undefined) !== (data.fdc_id === undefined),
+  { message: 'Provide either dish_name or fdc_id, but not both' }
+).refine(
+  (data) => data.servings === undefined || (data.quantity === undefined && data.unit === undefined),
+  { message: 'Provide either servings or quantity and unit, but not both' }
+);
+
+// Recipe Calculation Schemas
+export const recipeIngredientSchema = z.object({
+  name: z.string().min(1, 'Ingredient name is required'),
+  quantity: z.number().positive('Ingredient quantity must be a positive number'),
+  unit: foodUnitSchema,
+});
+
+export const MAX_RECIPE_INGREDIENTS = 30;
+
+export const calculateRecipeSchema = z.object({
+  recipe_name: z.string().min(1, 'Recipe name is required').max(255).default('Recipe'),
+  ingredients: z.array(recipeIngredientSchema)
+    .min(1, 'At least one ingredient is required')
+    .max(MAX_RECIPE_INGREDIENTS, `A recipe can have at most ${MAX_RECIPE_INGREDIENTS} ingredients`),
+  servings: z.number().positive('Servings must be a positive number').default(1),
+  // Fail with 404 if any ingredient's match is below STRICT_MATCH_MIN_CONFIDENCE
+  strict: z.boolean().default(false),
+});
+
+// Meal Parsing Schema
+export const MAX_MEAL_ITEMS = 15;
+export const MAX_MEAL_TEXT_LENGTH = 1000;
+
+export const parseMealSchema = z.object({
+  text: z.string().trim().min(1, 'Meal text is required').max(MAX_MEAL_TEXT_LENGTH, `Meal text must be at most ${MAX_MEAL_TEXT_LENGTH} characters`),
+  // Used to find "today" when reporting progress against the user's goals; defaults to the profile's time zone
+  timezone: timeZoneSchema.optional(),
+});
+
+// Batch Calorie Schema
+export const MAX_BATCH_ITEMS = 50;
+// Batches, recipes and meals count against the strict rate limit as one request per this many lookups
+export const BATCH_ITEMS_PER_RATE_LIMIT_HIT = 10;
+
+export const batchCaloriesSchema = z.object({
+  items: z.array(z.object({
+    dish_name: z.string().trim().min(1, 'Dish name is required').max(255),
+    // Without servings, a leading amount in dish_name is parsed as in /get-calories
+    servings: z.number().positive('Servings must be a positive number').optional(),
+  }))
+    .min(1, 'At least one item is required')
+    .max(MAX_BATCH_ITEMS, `A batch can have at most ${MAX_BATCH_ITEMS} items`),
+  strict: z.boolean().default(false),
+});
+
+// Food data providers; every food result says which one it came from
+export const FOOD_PROVIDER_IDS = ['usda', 'open_food_facts'] as const;
+export type FoodProviderId = typeof FOOD_PROVIDER_IDS[number];
+
+// Shown as CalorieResponse.source
+export const FOOD_PROVIDER_NAMES: Record<FoodProviderId, string> = {
+  usda: 'USDA FoodData Central',
+  open_food_facts: 'Open Food Facts',
+};
+
+// Optional response sections, requested with ?include=micronutrients
+export const RESPONSE_INCLUDES = ['micronutrients'] as const;
+
+export const includeQuerySchema = z.object({
+  include: z.string().optional().transform((value, ctx) => {
+    const includes = (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+    const unknown = includes.filter(item => !(RESPONSE_INCLUDES as readonly string[]).includes(item));
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `include must be a comma-separated list of ${RESPONSE_INCLUDES.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    return includes as ResponseInclude[];
+  }),
+});
+
+// Food Search Schema
+export const USDA_DATA_TYPES = ['Foundation', 'SR Legacy', 'Survey (FNDDS)', 'Branded'] as const;
+
+// Query parameter names follow the USDA API (pageSize, dataType, brandOwner)
+export const foodSearchSchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(255),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(25),
+  // Comma-separated, e.g. "Foundation,SR Legacy"
+  dataType: z.string().optional().transform((value, ctx) => {
+    if (value === undefined) return undefined;
+    const types = value.split(',').map(type => type.trim()).filter(Boolean);
+    const unknown = types.filter(type => !(USDA_DATA_TYPES as readonly string[]).includes(type));
+    if (types.length === 0 || unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `dataType must be a comma-separated list of ${USDA_DATA_TYPES.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    return types as UsdaDataType[];
+  }),
+  brandOwner: z.string().trim().min(1).max(255).optional(),
+});
+
+export const fdcIdParamSchema = z.coerce.number({ invalid_type_error: 'FDC ID must be a number' })
+  .int('FDC ID must be a positive integer')
+  .positive('FDC ID must be a positive integer');
+
+// UPC-A, EAN-8/13 and GTIN-14 barcodes are 8 to 14 digits
+export const gtinParamSchema = z.string().trim().regex(/^\d{8,14}$/, 'Barcode must be 8 to 14 digits');
+
+// Custom Food and Saved Recipe Schemas
+export const CUSTOM_MATCH_TYPES = ['custom_food', 'recipe'] as const;
+
+export const searchByNameSchema = z.object({
+  q: z.string().trim().max(255).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const createCustomFoodSchema = z.object({
+  name: z.string().trim().min(1, 'Food name is required').max(255),
+  brand: z.string().trim().min(1).max(255).optional(),
+  serving_size_grams: z.number().positive('Serving size must be a positive number of grams'),
+  calories_per_serving: z.number().nonnegative('Calories cannot be negative'),
+  macronutrients_per_serving: macronutrientsSchema,
+});
+
+export const updateCustomFoodSchema = createCustomFoodSchema.partial().refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'At least one field is required' }
+);
+
+export const savedRecipeIngredientSchema = z.object({
+  fdc_id: z.number().int().positive().optional(),
+  custom_food_id: z.number().int().positive().optional(),
+  quantity: z.number().positive('Ingredient quantity must be a positive number'),
+  unit: foodUnitSchema,
+}).refine(
+  (data) => (data.fdc_id === undefined) !== (data.custom_food_id === undefined),
+  { message: 'Each ingredient needs either fdc_id or custom_food_id' }
+);
+
+export const createRecipeSchema = z.object({
+  name: z.string().trim().min(1, 'Recipe name is required').max(255),
+  servings: z.number().positive('Servings must be a positive number'),
+  ingredients: z.array(savedRecipeIngredientSchema)
+    .min(1, 'At least one ingredient is required')
+    .max(MAX_RECIPE_INGREDIENTS, `A recipe can have at most ${MAX_RECIPE_INGREDIENTS} ingredients`),
+});
+
+export const updateRecipeSchema = createRecipeSchema.partial().refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'At least one of name, servings or ingredients is required' }
+);
+
+// Match Correction Schemas
+export const createMatchCorrectionSchema = z.object({
+  // The dish_name the wrong match was returned for
+  query: z.string().trim().min(1, 'Query is required').max(255),
+  fdc_id: z.number().int().positive('FDC ID must be a positive integer'),
+});
+
+export const listMatchCorrectionsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Food Diary Schemas
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export const mealTypeSchema = z.enum(MEAL_TYPES, {
+  errorMap: () => ({ message: 'Meal type must be one of breakfast, lunch, dinner or snack' }),
+});
+
+// Subset of CalorieResponse needed to turn an earlier lookup into a diary entry
+export const calorieResultSchema = z.object({
   dish_name: z.string().min(1, 'Dish name is required'),
   servings: z.number().positive('Servings must be a positive number'),
+  calories_per_serving: z.number().nonnegative(),
+  macronutrients_per_serving: macronutrientsSchema.optional(),
+  source: z.string().min(1),
+  matched_food: z.object({
+    name: z.string().min(1),
+    fdc_id: z.number().int().positive().nullable(),
+  }).optional(),
+  custom_match: z.object({
+    type: z.enum(CUSTOM_MATCH_TYPES),
+    id: z.number().int().positive(),
+    name: z.string().min(1),
+  }).optional(),
+}).refine(
+  (data) => Boolean(data.matched_food) !== Boolean(data.custom_match),
+  { message: 'calorie_result must include either matched_food or custom_match' }
+);
+
+export const createDiaryEntrySchema = z.object({
+  dish_name: z.string().min(1, 'Dish name is required').optional(),
+  servings: z.number().positive('Servings must be a positive number').optional(),
+  quantity: z.number().positive('Quantity must be a positive number').optional(),
+  unit: foodUnitSchema.optional(),
+  calorie_result: calorieResultSchema.optional(),
+  meal_type: mealTypeSchema,
+  consumed_at: z.string().datetime({ offset: true, message: 'consumed_at must be an ISO 8601 timestamp' }).optional(),
+}).refine(
+  (data) => Boolean(data.dish_name) !== Boolean(data.calorie_result),
+  { message: 'Provide either dish_name or calorie_result, but not both' }
+).refine(
+  (data) => data.servings === undefined || (data.quantity === undefined && data.unit === undefined),
+  { message: 'Provide either servings or quantity and unit, but not both' }
+).refine(
+  (data) => Boolean(data.dish_name) || (data.quantity === undefined && data.unit === undefined),
+  { message: 'quantity and unit can only be used with dish_name' }
+);
+
+export const updateDiaryEntrySchema = z.object({
+  servings: z.number().positive('Servings must be a positive number').optional(),
+  meal_type: mealTypeSchema.optional(),
+  consumed_at: z.string().datetime({ offset: true, message: 'consumed_at must be an ISO 8601 timestamp' }).optional(),
+}).refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'At least one of servings, meal_type or consumed_at is required' }
+);
+
+export const listDiaryEntriesSchema = z.object({
+  from: z.string().datetime({ offset: true, message: 'from must be an ISO 8601 timestamp' }).optional(),
+  to: z.string().datetime({ offset: true, message: 'to must be an ISO 8601 timestamp' }).optional(),
+  meal_type: mealTypeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Nutrition Summary Schemas
+export const MAX_SUMMARY_RANGE_DAYS = 92;
+
+const dateStringSchema = (field: string) =>
+  z.string().refine(isValidDateString, { message: `${field} must be a date in YYYY-MM-DD format` });
+
+export const dailySummarySchema = z.object({
+  date: dateStringSchema('date').optional(),
+  // Defaults to the profile's time zone
+  timezone: timeZoneSchema.optional(),
+});
+
+export const rangeSummarySchema = z.object({
+  from: dateStringSchema('from'),
+  to: dateStringSchema('to'),
+  // Defaults to the profile's time zone
+  timezone: timeZoneSchema.optional(),
+}).refine(
+  (data) => data.from <= data.to,
+  { message: 'from must be on or before to' }
+).refine(
+  (data) => countDaysInclusive(data.from, data.to) <= MAX_SUMMARY_RANGE_DAYS,
+  { message: `Summary range cannot exceed ${MAX_SUMMARY_RANGE_DAYS} days` }
+);
+
+// Goal Schemas
+export const MACRO_TARGET_UNITS = ['grams', 'percent'] as const;
+export const BIOLOGICAL_SEXES = ['male', 'female'] as const;
+export const ACTIVITY_LEVELS = ['sedentary', 'light', 'moderate', 'active', 'very_active'] as const;
+export const WEIGHT_GOALS = ['lose', 'maintain', 'gain'] as const;
+
+export const macroTargetsSchema = z.object({
+  unit: z.enum(MACRO_TARGET_UNITS).default('grams'),
+  protein: z.number().nonnegative('Protein target cannot be negative'),
+  total_fat: z.number().nonnegative('Fat target cannot be negative'),
+  carbohydrates: z.number().nonnegative('Carbohydrate target cannot be negative'),
+}).refine(
+  (targets) => targets.unit !== 'percent' ||
+    Math.abs(targets.protein + targets.total_fat + targets.carbohydrates - 100) <= 0.5,
+  { message: 'Macro percentages must add up to 100' }
+);
+
+export const goalLimitsSchema = z.object({
+  fiber: z.number().positive('Fiber limit must be a positive number').optional(),
+  sugars: z.number().positive('Sugars limit must be a positive number').optional(),
+  saturated_fat: z.number().positive('Saturated fat limit must be a positive number').optional(),
+});
+
+export const updateGoalsSchema = z.object({
+  daily_calories: z.number().int('Daily calories must be a whole number').min(500).max(10000),
+  macro_targets: macroTargetsSchema.optional(),
+  limits: goalLimitsSchema.default({}),
+});
+
+export const suggestGoalsSchema = z.object({
+  age: z.number().int().min(13, 'Age must be at least 13').max(120),
+  sex: z.enum(BIOLOGICAL_SEXES),
+  height_cm: z.number().min(100).max(250),
+  weight_kg: z.number().min(30).max(350),
+  activity_level: z.enum(ACTIVITY_LEVELS),
+  weight_goal: z.enum(WEIGHT_GOALS).default('maintain'),
+});
+
+// Profile Schemas
+// Plans decide the rate limit tier; see RATE_LIMIT_TIERS
+export const PLAN_TIERS = ['free', 'pro', 'internal'] as const;
+// Roles decide what a user may do beyond their own data; see ROLE_PERMISSIONS
+export const USER_ROLES = ['user', 'nutritionist', 'admin'] as const;
+export const PERMISSIONS = [
+  'users:read',          // List, search and view accounts
+  'users:manage',        // Change roles and plans, disable and enable accounts
+  'rate_limits:reset',   // Reset rate limit counters
+  'stats:read',          // View system stats
+  'corrections:review',  // View match corrections aggregated over all users
+] as const;
+export const UNIT_SYSTEMS = ['metric', 'imperial'] as const;
+export const DIETARY_PREFERENCES = [
+  'vegetarian', 'vegan', 'pescatarian', 'gluten_free', 'dairy_free',
+  'nut_free', 'halal', 'kosher', 'low_carb', 'low_sodium',
+] as const;
+
+export const updateProfileSchema = z.object({
+  first_name: z.string().min(1, 'First name is required').max(50).optional(),
+  last_name: z.string().min(1, 'Last name is required').max(50).optional(),
+  // A new address has to be verified again
+  email: z.string().email('Invalid email format').optional(),
+  // Required with email, so a stolen access token can't take over the account
+  current_password: z.string().min(1, 'Current password is required').optional(),
+  // Default time zone for summaries and "today" when a request doesn't name one
+  timezone: timeZoneSchema.optional(),
+  preferred_units: z.enum(UNIT_SYSTEMS).optional(),
+  // Replaces the whole list; duplicates are dropped
+  dietary_preferences: z.array(z.enum(DIETARY_PREFERENCES))
+    .transform((preferences) => [...new Set(preferences)])
+    .optional(),
+}).refine(
+  ({ current_password, ...fields }) => Object.values(fields).some((value) => value !== undefined),
+  { message: 'At least one field is required' }
+).refine(
+  (data) => data.email === undefined || data.current_password !== undefined,
+  { message: 'current_password is required to change the email address', path: ['current_password'] }
+);
+
+export const changePasswordSchema = z.object({
+  current_password: z.string().min(1, 'Current password is required'),
+  new_password: z.string().min(8, 'Password must be at least 8 characters'),
+}).refine(
+  (data) => data.new_password !== data.current_password,
+  { message: 'New password must be different from the current password', path: ['new_password'] }
+);
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+// API Key Schemas
+// What an API key may reach; each scope covers one group of endpoints
+export const API_KEY_SCOPES = ['calories', 'foods', 'diary', 'summary', 'goals', 'recipes', 'matches'] as const;
+export const MAX_API_KEYS_PER_USER = 20;
+
+const apiKeyScopesSchema = z.array(z.enum(API_KEY_SCOPES))
+  .min(1, 'At least one scope is required')
+  .transform((scopes) => [...new Set(scopes)]);
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: apiKeyScopesSchema,
 });
 
+export const updateApiKeySchema = createApiKeySchema.partial().refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'At least one of name or scopes is required' }
+);
+
+// Sharing Schemas
+// What a client lets a coach read; sharing is always read-only
+export const SHARE_SCOPES = ['diary', 'summary', 'goals'] as const;
+// pending until the coach accepts; declined by the coach, or revoked by either side later
+export const SHARE_STATUSES = ['pending', 'active', 'declined', 'revoked'] as const;
+
+export const createShareInviteSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  scopes: z.array(z.enum(SHARE_SCOPES))
+    .min(1, 'At least one scope is required')
+    .transform((scopes) => [...new Set(scopes)]),
+});
+
+// Coaches read a client's data by adding user_id to the diary, summary and goals requests
+export const dataOwnerQuerySchema = z.object({
+  user_id: z.coerce.number().int().positive().optional(),
+});
+
+export const listAccessLogSchema = z.object({
+  coach_id: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Admin Schemas
+export const adminListUsersSchema = z.object({
+  // Matched against email and names
+  search: z.string().trim().min(1).max(255).optional(),
+  role: z.enum(USER_ROLES).optional(),
+  plan: z.enum(PLAN_TIERS).optional(),
+  status: z.enum(['active', 'disabled']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const adminUpdateUserSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  plan: z.enum(PLAN_TIERS).optional(),
+}).refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'At least one of role or plan is required' }
+);
+
+export const disableUserSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// Counters are reset for one subject, as the rate limiter identifies it
+export const resetRateLimitsSchema = z.object({
+  user_id: z.number().int().positive().optional(),
+  ip: z.string().trim().min(1).max(64).optional(),
+}).refine(
+  (data) => [data.user_id, data.ip].filter((value) => value !== undefined).length === 1,
+  { message: 'Exactly one of user_id or ip is required' }
+);
+
+export const adminStatsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+// Counted per UTC day for the admin stats
+export const DAILY_METRICS = ['lookups', 'usda_requests', 'usda_errors'] as const;
+
 // Response Types
 export interface AuthResponse {
   user: {
@@ -26,8 +516,196 @@ export interface AuthResponse {
     first_name: string;
     last_name: string;
     email: string;
+    email_verified: boolean;
   };
   token: string;
+  refresh_token: string;
+  expires_in: number;     // seconds until the access token expires
+}
+
+export interface UserProfile {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+  email_verified: boolean;
+  role: UserRole;
+  plan: PlanTier;
+  timezone: string;
+  preferred_units: UnitSystem;
+  dietary_preferences: DietaryPreference[];
+  created_at: string;
+  updated_at: string;
+}
+
+// A user as admins see them
+export interface AdminUser extends UserProfile {
+  disabled: boolean;
+  disabled_at: string | null;
+  disabled_reason: string | null;
+}
+
+export interface ShareGrantResponse {
+  id: number;
+  client_id: number;
+  // Null until the coach accepts the invitation
+  coach_id: number | null;
+  coach_email: string;
+  scopes: ShareScope[];
+  status: ShareStatus;
+  // The other side: the coach in a client's list (null while the invitation is pending), the client in a coach's list
+  coach?: ShareParty | null;
+  client?: ShareParty;
+  created_at: string;
+  accepted_at: string | null;
+}
+
+export interface ShareParty {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+export interface AccessLogEntry {
+  id: number;
+  grant_id: number;
+  coach: ShareParty;
+  scope: ShareScope;
+  method: string;
+  path: string;
+  accessed_at: string;
+}
+
+export interface DailyCount {
+  date: string;
+  count: number;
+}
+
+export interface AdminStatsResponse {
+  days: number;
+  since: string;
+  users: {
+    total: number;
+    disabled: number;
+    by_role: Record<UserRole, number>;
+    by_plan: Record<PlanTier, number>;
+  };
+  active_sessions: number;
+  active_api_keys: number;
+  registrations: { total: number; daily: DailyCount[] };
+  lookups: { total: number; daily: DailyCount[] };
+  usda: {
+    requests: number;
+    errors: number;
+    // Errors per request over the period, null without requests
+    error_rate: number | null;
+    daily: Array<{ date: string; requests: number; errors: number; error_rate: number | null }>;
+  };
+}
+
+export interface Macronutrients {
+  protein: number;        // grams
+  total_fat: number;      // grams
+  carbohydrates: number;  // grams
+  fiber?: number;         // grams
+  sugars?: number;        // grams
+  saturated_fat?: number; // grams
+}
+
+export interface MicronutrientValue {
+  name: string;
+  amount: number;
+  unit: string;
+  // Share of the FDA daily value, or null for nutrients without one
+  percent_daily_value: number | null;
+}
+
+export type Micronutrients = Partial<Record<MicronutrientKey, MicronutrientValue>>;
+
+export interface IngredientBreakdown {
+  name: string;
+  calories_per_100g: number;
+  macronutrients_per_100g?: Macronutrients;
+  serving_size?: string;
+  data_type?: string;
+  fdc_id?: number;
+  provider?: FoodProviderId;
+  brand?: string;
+  category?: string;
+  // Present on recipe calculations, describing the amount used of this ingredient
+  query?: string;
+  quantity?: number;
+  unit?: string;
+  grams?: number;
+  calories?: number;
+  macronutrients?: Macronutrients;
+  micronutrients?: Micronutrients;
+  portion?: PortionInfo;
+  // Present on recipe calculations: how each ingredient was matched
+  match?: MatchExplanation;
+  // Present on recipe calculations when the ingredient is one of the user's own foods or recipes
+  custom_match?: {
+    type: CustomMatchType;
+    id: number;
+    name: string;
+  };
+  // Present on parsed meals: how sure we are that the phrase was read and matched correctly (0-1)
+  confidence?: number;
+}
+
+export const PORTION_SOURCES = [
+  'unit_conversion',    // mass unit converted directly to grams
+  'food_measure',       // gram weight of a matching USDA portion measure
+  'volume_conversion',  // density derived from another volume measure of the same food
+  'label_serving',      // serving size from the product label
+  'recipe_serving',     // one serving of a saved recipe (total ingredient grams / servings)
+  'density_estimate',   // no volume data for the food, assumed 1 g/ml
+  'default_100g',       // no portion data at all, assumed 100 g
+] as const;
+
+export type PortionSource = (typeof PORTION_SOURCES)[number];
+
+export interface PortionInfo {
+  quantity: number;
+  unit: FoodUnit;
+  grams_per_unit: number;
+  total_grams: number;
+  source: PortionSource;
+  description: string;
+}
+
+// How a food was picked for a query
+export const MATCH_RULES = [
+  'exact',              // description has the same words as the query
+  'prefix',             // description starts with the query's words
+  'contains',           // description has all of the query's words
+  'scored',             // best word-overlap score
+  'fallback',           // nothing scored well; first search result
+  'correction',         // the user's own correction for this query
+  'global_correction',  // the food most users picked when correcting this query
+  'fdc_id',             // requested by FDC ID, no matching involved
+] as const;
+export type MatchRule = typeof MATCH_RULES[number];
+
+// Strict requests fail instead of returning a match below this confidence
+export const STRICT_MATCH_MIN_CONFIDENCE = 0.5;
+
+export interface MatchAlternative {
+  provider: FoodProviderId;
+  fdc_id: number | null;
+  description: string;
+  data_type: string;
+  calories_per_100g: number | null;
+  // 0-100, as in /foods/search
+  match_score: number;
+}
+
+export interface MatchExplanation {
+  rule: MatchRule;
+  // 0-1, the match score of the chosen food divided by 100
+  confidence: number;
+  alternatives: MatchAlternative[];
 }
 
 export interface CalorieResponse {
@@ -35,46 +713,183 @@ export interface CalorieResponse {
   servings: number;
   calories_per_serving: number;
   total_calories: number;
-  macronutrients_per_serving?: {
-    protein: number;        // grams
-    total_fat: number;      // grams
-    carbohydrates: number;  // grams
-    fiber?: number;         // grams
-    sugars?: number;        // grams
-    saturated_fat?: number; // grams
-  };
-  total_macronutrients?: {
-    protein: number;        // grams
-    total_fat: number;      // grams
-    carbohydrates: number;  // grams
-    fiber?: number;         // grams
-    sugars?: number;        // grams
-    saturated_fat?: number; // grams
-  };
+  macronutrients_per_serving?: Macronutrients;
+  total_macronutrients?: Macronutrients;
+  // Present with include=micronutrients when the food has nutrient data
+  micronutrients_per_serving?: Micronutrients;
+  total_micronutrients?: Micronutrients;
   source: string;
-  ingredient_breakdown?: Array<{
-    name: string;
-    calories_per_100g: number;
-    macronutrients_per_100g?: {
-      protein: number;        // grams
-      total_fat: number;      // grams
-      carbohydrates: number;  // grams
-      fiber?: number;         // grams
-      sugars?: number;        // grams
-      saturated_fat?: number; // grams
-    };
-    serving_size?: string;
-    data_type?: string;
-    fdc_id?: number;
-    brand?: string;
-    category?: string;
-  }>;
+  ingredient_breakdown?: IngredientBreakdown[];
   matched_food?: {
     name: string;
-    fdc_id: number;
+    provider: FoodProviderId;
+    // Null for foods from providers other than USDA
+    fdc_id: number | null;
     data_type: string;
     published_date: string;
   };
+  portion?: PortionInfo;
+  match?: MatchExplanation;
+  custom_match?: {
+    type: CustomMatchType;
+    id: number;
+    name: string;
+  };
+  goal_progress?: GoalProgress;
+  // Whether the USDA data came from the cache
+  cache?: CacheInfo;
+}
+
+export const CACHE_STATUSES = ['hit', 'miss', 'stale'] as const;
+export type CacheStatus = (typeof CACHE_STATUSES)[number];
+
+export interface CacheInfo {
+  status: CacheStatus;
+  // Seconds since the data was fetched from USDA
+  age_seconds: number;
+}
+
+export interface FoodPortionOption {
+  description: string;
+  gram_weight: number;
+}
+
+export interface FoodSearchCandidate {
+  provider: FoodProviderId;
+  // Null for foods from providers other than USDA
+  fdc_id: number | null;
+  gtin_upc: string | null;
+  description: string;
+  // 0-100, how closely the description matches the query
+  match_score: number;
+  // The candidate /get-calories would pick for this query
+  is_best_match: boolean;
+  data_type: string;
+  brand: string | null;
+  category: string | null;
+  calories_per_100g: number | null;
+  portions: FoodPortionOption[];
+}
+
+export interface FoodSearchResponse {
+  query: string;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  total_hits: number;
+  foods: FoodSearchCandidate[];
+  // Absent when results come from the local FDC tables
+  cache?: CacheInfo;
+}
+
+export interface FoodNutrientAmount {
+  id: number;
+  number: string;
+  name: string;
+  amount: number;
+  unit: string;
+}
+
+export interface FoodDetailsResponse {
+  provider: FoodProviderId;
+  fdc_id: number | null;
+  description: string;
+  data_type: string;
+  published_date: string;
+  brand_owner: string | null;
+  brand_name: string | null;
+  gtin_upc: string | null;
+  category: string | null;
+  ingredients: string | null;
+  serving_size: {
+    amount: number;
+    unit: string;
+    household: string | null;
+  } | null;
+  calories_per_100g: number | null;
+  macronutrients_per_100g: Macronutrients;
+  // Every nutrient USDA reports, per 100g
+  nutrients: FoodNutrientAmount[];
+  portions: FoodPortionOption[];
+  cache?: CacheInfo;
+}
+
+export interface ParsedMealItem {
+  text: string;
+  food_name: string;
+  quantity: number;
+  unit: FoodUnit;
+  // 1 when quantity and unit were both stated, lower when one or both were assumed
+  parse_confidence: number;
+}
+
+export interface UnmatchedMealItem {
+  text: string;
+  food_name: string;
+  reason: string;
+}
+
+export interface ParseMealResponse extends CalorieResponse {
+  items: ParsedMealItem[];
+  unmatched_items: UnmatchedMealItem[];
+}
+
+// One result per requested item, in request order
+export type BatchCalorieItemResult =
+  | { index: number; dish_name: string; status: 'ok'; result: CalorieResponse }
+  | { index: number; dish_name: string; status: 'error'; error: ErrorResponse };
+
+export interface BatchCalorieResponse {
+  results: BatchCalorieItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+export interface GoalProgressItem {
+  target: number;
+  consumed: number;
+  remaining: number;
+  percent_of_goal: number;
+}
+
+export interface GoalProgress {
+  calories: GoalProgressItem;
+  macronutrients?: {
+    protein: GoalProgressItem;
+    total_fat: GoalProgressItem;
+    carbohydrates: GoalProgressItem;
+  };
+  limits?: {
+    fiber?: GoalProgressItem;
+    sugars?: GoalProgressItem;
+    saturated_fat?: GoalProgressItem;
+  };
+}
+
+export interface NutritionTotals {
+  entry_count: number;
+  total_calories: number;
+  total_macronutrients: Macronutrients;
+}
+
+export interface DailySummary extends NutritionTotals {
+  date: string;
+  meals: Record<MealType, NutritionTotals>;
+}
+
+export interface DailySummaryResponse extends DailySummary {
+  timezone: string;
+  goal_progress?: GoalProgress;
+}
+
+export interface RangeSummaryResponse extends NutritionTotals {
+  from: string;
+  to: string;
+  timezone: string;
+  days_logged: number;
+  average_calories_per_day: number;
+  average_macronutrients_per_day: Macronutrients;
+  days: DailySummary[];
 }
 
 export interface ErrorResponse {
@@ -118,7 +933,14 @@ export interface USDAFoodAttribute {
   };
 }
 
+/**
+ * Food record shared by all providers, in the shape of a USDA search result.
+ * Nutrients from other providers are mapped onto FDC nutrient IDs and per-100g amounts.
+ */
 export interface USDAFood {
+  // Absent on USDA foods
+  provider?: FoodProviderId;
+  // 0 for foods from other providers, which are identified by gtinUpc instead
   fdcId: number;
   description: string;
   lowercaseDescription: string;
@@ -151,6 +973,55 @@ export interface USDAFood {
   householdServingFullText?: string;
 }
 
+// Shape returned by the /food/{fdcId} detail endpoint, which differs from search results
+export interface USDAFoodDetailNutrient {
+  type?: string;
+  id?: number;
+  nutrient?: {
+    id: number;
+    number: string;
+    name: string;
+    rank?: number;
+    unitName: string;
+  };
+  amount?: number;
+}
+
+export interface USDAFoodPortion {
+  id: number;
+  amount?: number;
+  gramWeight: number;
+  modifier?: string;
+  portionDescription?: string;
+  sequenceNumber?: number;
+  measureUnit?: {
+    id: number;
+    name: string;
+    abbreviation: string;
+  };
+}
+
+export interface USDAFoodDetails {
+  fdcId: number;
+  description: string;
+  dataType: string;
+  // The detail endpoint and bulk downloads use publicationDate ("4/1/2019"); older responses use publishedDate
+  publishedDate?: string;
+  publicationDate?: string;
+  gtinUpc?: string;
+  brandOwner?: string;
+  brandName?: string;
+  ingredients?: string;
+  marketCountry?: string;
+  foodCategory?: USDAFoodCategory | { description: string };
+  brandedFoodCategory?: string;
+  foodNutrients: USDAFoodDetailNutrient[];
+  foodPortions?: USDAFoodPortion[];
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+}
+
 export interface USDASearchCriteria {
   query: string;
   dataType?: string[];
@@ -192,7 +1063,92 @@ export const MACRONUTRIENT_IDS = {
   SATURATED_FAT: 1258, // Fatty acids, total saturated (g)
 } as const;
 
+/**
+ * Micronutrients reported with include=micronutrients. Daily values are the FDA reference
+ * amounts for adults and children 4 years and older (21 CFR 101.9); null where none is set.
+ * Nutrients are read from the first FDC nutrient ID present, multiplied by its factor.
+ */
+export const MICRONUTRIENTS = [
+  { key: 'sodium', name: 'Sodium', unit: 'mg', dailyValue: 2300, sources: [{ nutrientId: 1093 }] },
+  { key: 'potassium', name: 'Potassium', unit: 'mg', dailyValue: 4700, sources: [{ nutrientId: 1092 }] },
+  { key: 'cholesterol', name: 'Cholesterol', unit: 'mg', dailyValue: 300, sources: [{ nutrientId: 1253 }] },
+  { key: 'trans_fat', name: 'Trans fat', unit: 'g', dailyValue: null, sources: [{ nutrientId: 1257 }] },
+  { key: 'added_sugars', name: 'Added sugars', unit: 'g', dailyValue: 50, sources: [{ nutrientId: 1235 }] },
+  { key: 'calcium', name: 'Calcium', unit: 'mg', dailyValue: 1300, sources: [{ nutrientId: 1087 }] },
+  { key: 'iron', name: 'Iron', unit: 'mg', dailyValue: 18, sources: [{ nutrientId: 1089 }] },
+  { key: 'magnesium', name: 'Magnesium', unit: 'mg', dailyValue: 420, sources: [{ nutrientId: 1090 }] },
+  { key: 'phosphorus', name: 'Phosphorus', unit: 'mg', dailyValue: 1250, sources: [{ nutrientId: 1091 }] },
+  { key: 'zinc', name: 'Zinc', unit: 'mg', dailyValue: 11, sources: [{ nutrientId: 1095 }] },
+  { key: 'vitamin_a', name: 'Vitamin A', unit: 'µg', dailyValue: 900, sources: [{ nutrientId: 1106 }] }, // RAE
+  { key: 'vitamin_c', name: 'Vitamin C', unit: 'mg', dailyValue: 90, sources: [{ nutrientId: 1162 }] },
+  // Older records only report vitamin D in IU (40 IU = 1 µg)
+  { key: 'vitamin_d', name: 'Vitamin D', unit: 'µg', dailyValue: 20, sources: [{ nutrientId: 1114 }, { nutrientId: 1110, factor: 0.025 }] },
+  { key: 'vitamin_e', name: 'Vitamin E', unit: 'mg', dailyValue: 15, sources: [{ nutrientId: 1109 }] },
+  { key: 'vitamin_k', name: 'Vitamin K', unit: 'µg', dailyValue: 120, sources: [{ nutrientId: 1185 }] },
+  { key: 'thiamin', name: 'Thiamin', unit: 'mg', dailyValue: 1.2, sources: [{ nutrientId: 1165 }] },
+  { key: 'riboflavin', name: 'Riboflavin', unit: 'mg', dailyValue: 1.3, sources: [{ nutrientId: 1166 }] },
+  { key: 'niacin', name: 'Niacin', unit: 'mg', dailyValue: 16, sources: [{ nutrientId: 1167 }] },
+  { key: 'vitamin_b6', name: 'Vitamin B6', unit: 'mg', dailyValue: 1.7, sources: [{ nutrientId: 1175 }] },
+  // Dietary folate equivalents, falling back to total folate
+  { key: 'folate', name: 'Folate', unit: 'µg', dailyValue: 400, sources: [{ nutrientId: 1190 }, { nutrientId: 1177 }] },
+  { key: 'vitamin_b12', name: 'Vitamin B12', unit: 'µg', dailyValue: 2.4, sources: [{ nutrientId: 1178 }] },
+] as const;
+
+export type MicronutrientKey = typeof MICRONUTRIENTS[number]['key'];
+
+// Amounts in each micronutrient's unit, as extracted from a food
+export type MicronutrientAmounts = Partial<Record<MicronutrientKey, number>>;
+
 // Export type inference
 export type RegisterRequest = z.infer<typeof registerSchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
-export type GetCaloriesRequest = z.infer<typeof getCaloriesSchema>; 
\ No newline at end of file
+export type RefreshTokenRequest = z.infer<typeof refreshTokenSchema>;
+export type AccountEmailRequest = z.infer<typeof accountEmailSchema>;
+export type ResetPasswordRequest = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailRequest = z.infer<typeof verifyEmailSchema>;
+export type PlanTier = (typeof PLAN_TIERS)[number];
+export type UserRole = (typeof USER_ROLES)[number];
+export type Permission = (typeof PERMISSIONS)[number];
+export type ShareScope = (typeof SHARE_SCOPES)[number];
+export type ShareStatus = (typeof SHARE_STATUSES)[number];
+export type CreateShareInviteRequest = z.infer<typeof createShareInviteSchema>;
+export type ListAccessLogRequest = z.infer<typeof listAccessLogSchema>;
+export type DailyMetric = (typeof DAILY_METRICS)[number];
+export type AdminListUsersRequest = z.infer<typeof adminListUsersSchema>;
+export type AdminUpdateUserRequest = z.infer<typeof adminUpdateUserSchema>;
+export type ResetRateLimitsRequest = z.infer<typeof resetRateLimitsSchema>;
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+export type DietaryPreference = (typeof DIETARY_PREFERENCES)[number];
+export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
+export type UpdateApiKeyRequest = z.infer<typeof updateApiKeySchema>;
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+export type GetCaloriesRequest = z.infer<typeof getCaloriesSchema>;
+export type MassUnit = (typeof MASS_UNITS)[number];
+export type VolumeUnit = (typeof VOLUME_UNITS)[number];
+export type HouseholdUnit = (typeof HOUSEHOLD_UNITS)[number];
+export type FoodUnit = (typeof FOOD_UNITS)[number];
+export type RecipeIngredient = z.infer<typeof recipeIngredientSchema>;
+export type CalculateRecipeRequest = z.infer<typeof calculateRecipeSchema>;
+export type ParseMealRequest = z.infer<typeof parseMealSchema>;
+export type BatchCaloriesRequest = z.infer<typeof batchCaloriesSchema>;
+export type UsdaDataType = (typeof USDA_DATA_TYPES)[number];
+export type ResponseInclude = (typeof RESPONSE_INCLUDES)[number];
+export type FoodSearchRequest = z.infer<typeof foodSearchSchema>;
+export type CustomMatchType = (typeof CUSTOM_MATCH_TYPES)[number];
+export type CreateCustomFoodRequest = z.infer<typeof createCustomFoodSchema>;
+export type UpdateCustomFoodRequest = z.infer<typeof updateCustomFoodSchema>;
+export type CreateMatchCorrectionRequest = z.infer<typeof createMatchCorrectionSchema>;
+export type SavedRecipeIngredient = z.infer<typeof savedRecipeIngredientSchema>;
+export type CreateRecipeRequest = z.infer<typeof createRecipeSchema>;
+export type UpdateRecipeRequest = z.infer<typeof updateRecipeSchema>;
+export type MealType = z.infer<typeof mealTypeSchema>;
+export type CalorieResult = z.infer<typeof calorieResultSchema>;
+export type CreateDiaryEntryRequest = z.infer<typeof createDiaryEntrySchema>;
+export type UpdateDiaryEntryRequest = z.infer<typeof updateDiaryEntrySchema>;
+export type DailySummaryRequest = z.infer<typeof dailySummarySchema>;
+export type RangeSummaryRequest = z.infer<typeof rangeSummarySchema>;
+export type MacroTargetUnit = (typeof MACRO_TARGET_UNITS)[number];
+export type UpdateGoalsRequest = z.infer<typeof updateGoalsSchema>;
+export type SuggestGoalsRequest = z.infer<typeof suggestGoalsSchema>; 
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+/**
+ * Split one CSV record into fields. Returns null when a quoted field continues on the next line.
+ */
+function splitRecord(record: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+
+    if (inQuotes) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) return null;
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Stream the rows of a CSV file with a header line, keyed by column name.
+ * Quoted fields may contain commas, escaped quotes and line breaks.
+ */
+export async function* readCsvRows(path: string): AsyncGenerator<Record<string, string>> {
+  const lines = createInterface({ input: createReadStream(path, { encoding: 'utf8' }), crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  let pending = '';
+
+  for await (const line of lines) {
+    const record = pending ? `${pending}\n${line}` : line;
+    const fields = splitRecord(record);
+
+    if (!fields) {
+      pending = record;
+      continue;
+    }
+    pending = '';
+
+    if (!header) {
+      // Strip the byte order mark some exports start with
+      header = fields.map(name => name.replace(/^\uFEFF/, '').trim());
+      continue;
+    }
+
+    if (fields.length === 1 && fields[0] === '') continue;
+
+    const row: Record<string, string> = {};
+    header.forEach((name, index) => {
+      row[name] = fields[index] ?? '';
+    });
+    yield row;
+  }
+}
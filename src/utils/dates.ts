@@ -0,0 +1,58 @@
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a string is an IANA time zone the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a string is a real calendar date in YYYY-MM-DD form
+ */
+export function isValidDateString(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+/**
+ * Format an instant as a YYYY-MM-DD calendar date in the given time zone
+ */
+export function toLocalDateString(instant: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+/**
+ * Number of calendar days from one YYYY-MM-DD date to another (inclusive)
+ */
+export function countDaysInclusive(from: string, to: string): number {
+  const start = new Date(`${from}T00:00:00Z`).getTime();
+  const end = new Date(`${to}T00:00:00Z`).getTime();
+  return Math.round((end - start) / MS_PER_DAY) + 1;
+}
+
+/**
+ * List every YYYY-MM-DD date from one date to another (inclusive)
+ */
+export function enumerateDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const start = new Date(`${from}T00:00:00Z`).getTime();
+  const days = countDaysInclusive(from, to);
+  for (let i = 0; i < days; i++) {
+    dates.push(new Date(start + i * MS_PER_DAY).toISOString().slice(0, 10));
+  }
+  return dates;
+}
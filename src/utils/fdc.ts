@@ -0,0 +1,69 @@
+import { USDAFood, USDAFoodDetails } from '../types';
+
+// data_type values used in the bulk CSV downloads, mapped to the names the API uses
+export const CSV_DATA_TYPES: Record<string, string> = {
+  foundation_food: 'Foundation',
+  sr_legacy_food: 'SR Legacy',
+  survey_fndds_food: 'Survey (FNDDS)',
+  branded_food: 'Branded',
+};
+
+/**
+ * Normalize an FDC date to YYYY-MM-DD. Detail responses and bulk files use "4/1/2019",
+ * search results and CSV files already use ISO dates.
+ */
+export function toIsoDate(value: string | undefined): string {
+  if (!value) return '';
+
+  const usDate = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (usDate) {
+    const [, month, day, year] = usDate;
+    return `${year}-${month!.padStart(2, '0')}-${day!.padStart(2, '0')}`;
+  }
+
+  return value.slice(0, 10);
+}
+
+/**
+ * Map a food detail response or bulk download record onto the USDAFood shape used by search results
+ */
+export function normalizeFoodDetails(details: USDAFoodDetails): USDAFood {
+  const category = details.foodCategory?.description ?? details.brandedFoodCategory;
+
+  return {
+    fdcId: details.fdcId,
+    description: details.description,
+    lowercaseDescription: details.description.toLowerCase(),
+    dataType: details.dataType,
+    publishedDate: toIsoDate(details.publicationDate ?? details.publishedDate),
+    ...(details.gtinUpc && { gtinUpc: details.gtinUpc }),
+    ...(details.brandOwner && { brandOwner: details.brandOwner }),
+    ...(details.brandName && { brandName: details.brandName }),
+    ...(details.ingredients && { ingredients: details.ingredients }),
+    ...(details.marketCountry && { marketCountry: details.marketCountry }),
+    ...(category && { foodCategory: { id: 0, code: '', description: category } }),
+    ...(details.servingSize && { servingSize: details.servingSize }),
+    ...(details.servingSizeUnit && { servingSizeUnit: details.servingSizeUnit }),
+    ...(details.householdServingFullText && { householdServingFullText: details.householdServingFullText }),
+    foodNutrients: details.foodNutrients
+      .filter(n => n.nutrient && n.amount !== undefined)
+      .map(n => ({
+        nutrientId: n.nutrient!.id,
+        nutrientName: n.nutrient!.name,
+        nutrientNumber: n.nutrient!.number,
+        unitName: n.nutrient!.unitName,
+        value: n.amount!,
+        ...(n.nutrient!.rank !== undefined && { rank: n.nutrient!.rank }),
+      })),
+    foodMeasures: (details.foodPortions ?? []).map(portion => ({
+      disseminationText: portion.portionDescription ||
+        [portion.amount, portion.measureUnit?.name, portion.modifier].filter(Boolean).join(' '),
+      gramWeight: portion.gramWeight,
+      id: portion.id,
+      modifier: portion.modifier ?? '',
+      rank: portion.sequenceNumber ?? 0,
+      measureUnitAbbreviation: portion.measureUnit?.abbreviation ?? '',
+      measureUnitName: portion.measureUnit?.name ?? '',
+    })),
+  };
+}
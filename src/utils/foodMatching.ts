@@ -0,0 +1,374 @@
+import { ENERGY_NUTRIENT_IDS, MatchRule, USDAFood } from '../types';
+
+// Words that say nothing about which food is meant
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'or', 'with', 'in', 'on', 'for', 'to', 'from', 'as', 'my', 'some',
+  'style', 'type', 'ns', 'nfs',
+]);
+
+// Everyday names, mapped to the wording USDA descriptions use
+const SYNONYMS: Record<string, string[]> = {
+  fries: ['french fried potatoes'],
+  'french fries': ['french fried potatoes'],
+  chips: ['potato chips'],
+  crisps: ['potato chips'],
+  oatmeal: ['oats cooked'],
+  porridge: ['oats cooked'],
+  oj: ['orange juice'],
+  pb: ['peanut butter'],
+  'mac and cheese': ['macaroni and cheese'],
+  'hot dog': ['frankfurter'],
+  'hot dogs': ['frankfurter'],
+  hotdog: ['frankfurter'],
+  burger: ['hamburger'],
+  burgers: ['hamburger'],
+  'ground beef': ['beef ground'],
+  mince: ['beef ground'],
+  soda: ['carbonated beverage'],
+  coke: ['cola'],
+  ketchup: ['catsup'],
+  jello: ['gelatin dessert'],
+  courgette: ['zucchini'],
+  courgettes: ['zucchini'],
+  aubergine: ['eggplant'],
+  aubergines: ['eggplant'],
+  coriander: ['cilantro'],
+  rocket: ['arugula'],
+  beetroot: ['beets'],
+  swede: ['rutabaga'],
+  maize: ['corn'],
+  prawn: ['shrimp'],
+  prawns: ['shrimp'],
+  garbanzo: ['chickpeas'],
+  'garbanzo beans': ['chickpeas'],
+  scallion: ['green onions'],
+  scallions: ['green onions'],
+  'spring onion': ['green onions'],
+  'spring onions': ['green onions'],
+  capsicum: ['sweet peppers'],
+  'bell pepper': ['sweet peppers'],
+  yoghurt: ['yogurt'],
+};
+
+export type PreparationState = 'raw' | 'cooked' | 'boiled' | 'fried' | 'baked' | 'grilled' | 'steamed' | 'dried';
+
+// Words that give away how a food was prepared
+const PREPARATION_WORDS: Record<PreparationState, string[]> = {
+  raw: ['raw', 'uncooked'],
+  cooked: ['cooked', 'prepared'],
+  boiled: ['boiled', 'poached', 'simmered', 'stewed'],
+  fried: ['fried', 'sauteed'],
+  baked: ['baked', 'roasted'],
+  grilled: ['grilled', 'broiled', 'barbecued', 'bbq'],
+  steamed: ['steamed'],
+  dried: ['dried', 'dehydrated'],
+};
+
+// matchTier result -> match rule and 0-100 match score
+const TIER_RULES: Record<number, MatchRule> = { 1: 'contains', 2: 'prefix', 3: 'exact' };
+const TIER_SCORES = [0, 80, 90, 100];
+
+/**
+ * Reduce a word to a common stem so plurals and verb forms compare equal
+ * ("potatoes" -> "potato", "fries"/"fry" -> "fri", "chopped" -> "chop"). Past participles
+ * ending in "ied" keep their ending, so "fried" doesn't match "fries".
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word.replace(/y$/, 'i');
+
+  let stemmed = word;
+  if (stemmed.endsWith('ies')) stemmed = stemmed.slice(0, -2);
+  else if (/(?:ches|shes|xes|sses|oes)$/.test(stemmed)) stemmed = stemmed.slice(0, -2);
+  else if (stemmed.endsWith('s') && !/(?:ss|us|is)$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+
+  let suffixRemoved = false;
+  if (stemmed.endsWith('ied')) {
+    return stemmed;
+  } else if (stemmed.endsWith('ed') && stemmed.length > 4) {
+    stemmed = stemmed.slice(0, -2);
+    suffixRemoved = true;
+  } else if (stemmed.endsWith('ing') && stemmed.length > 5) {
+    stemmed = stemmed.slice(0, -3);
+    suffixRemoved = true;
+  }
+
+  // "chopped" -> "chopp" -> "chop", but "grilled" keeps "grill"
+  if (suffixRemoved && /([b-df-hj-kmnp-rtv-z])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+
+  return stemmed.replace(/e$/, '').replace(/y$/, 'i');
+}
+
+/**
+ * Lower-case words of a food name without accents or stop words
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// Preparation state named by each stemmed word
+const PREPARATION_BY_STEM = new Map<string, PreparationState>(
+  (Object.entries(PREPARATION_WORDS) as Array<[PreparationState, string[]]>).flatMap(([state, words]) =>
+    words.map(word => [stemWord(word), state] as [string, PreparationState])
+  )
+);
+
+function stemText(text: string): string[] {
+  return tokenize(text).map(stemWord);
+}
+
+// Synonyms are matched on whole words before stemming, so "fried" doesn't trigger the rule for "fries"
+const SYNONYM_RULES = Object.entries(SYNONYMS).map(([phrase, alternatives]) => ({
+  words: tokenize(phrase),
+  alternatives: alternatives.map(tokenize),
+}));
+
+export interface QueryAnalysis {
+  // The query's stemmed words, then each synonym rewrite of them
+  variants: string[][];
+  preparation: PreparationState | null;
+}
+
+/**
+ * Stem the query, expand it with synonyms and note how the food should be prepared
+ */
+export function analyzeQuery(query: string): QueryAnalysis {
+  const words = tokenize(query);
+  const rewrites = [words];
+
+  for (const rule of SYNONYM_RULES) {
+    const start = indexOfSequence(words, rule.words);
+    if (start === -1) continue;
+
+    for (const alternative of rule.alternatives) {
+      rewrites.push([...words.slice(0, start), ...alternative, ...words.slice(start + rule.words.length)]);
+    }
+  }
+
+  const variants = rewrites.map(rewrite => rewrite.map(stemWord));
+
+  const preparation = variants.flat().map(word => PREPARATION_BY_STEM.get(word)).find(state => state !== undefined);
+  return { variants, preparation: preparation ?? null };
+}
+
+function indexOfSequence(words: string[], sequence: string[]): number {
+  if (sequence.length === 0) return -1;
+  for (let start = 0; start + sequence.length <= words.length; start++) {
+    if (sequence.every((word, offset) => words[start + offset] === word)) return start;
+  }
+  return -1;
+}
+
+/**
+ * Edit distance counting a swap of adjacent letters as one edit
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(rows[i - 1]![j]! + 1, rows[i]![j - 1]! + 1, rows[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, rows[i - 2]![j - 2]! + 1);
+      }
+      rows[i]![j] = distance;
+    }
+  }
+
+  return rows[a.length]![b.length]!;
+}
+
+/**
+ * How well one query word is matched by a description word (0-1).
+ * Typos are allowed in longer words: one edit from 5 letters, two from 8.
+ */
+function wordSimilarity(queryWord: string, foodWord: string): number {
+  if (queryWord === foodWord) return 1;
+
+  const [shorter, longer] = queryWord.length <= foodWord.length ? [queryWord, foodWord] : [foodWord, queryWord];
+  const allowedEdits = shorter.length >= 8 ? 2 : shorter.length >= 5 ? 1 : 0;
+  if (allowedEdits > 0 && longer.length - shorter.length <= allowedEdits && editDistance(queryWord, foodWord) <= allowedEdits) {
+    return 0.8;
+  }
+
+  // Compound words ("cheeseburger" for "cheese")
+  if (shorter.length >= 4 && longer.includes(shorter)) return 0.7;
+
+  return 0;
+}
+
+/**
+ * Share of query words found in the description (0-1), using the best synonym variant
+ */
+function wordMatchRatio(foodWords: string[], analysis: QueryAnalysis): number {
+  return Math.max(0, ...analysis.variants.map(queryWords => {
+    if (queryWords.length === 0 || foodWords.length === 0) return 0;
+    const total = queryWords.reduce(
+      (sum, queryWord) => sum + Math.max(...foodWords.map(foodWord => wordSimilarity(queryWord, foodWord))),
+      0
+    );
+    return total / queryWords.length;
+  }));
+}
+
+function preparationsOf(foodWords: string[]): Set<PreparationState> {
+  return new Set(foodWords.flatMap(word => {
+    const state = PREPARATION_BY_STEM.get(word);
+    return state ? [state] : [];
+  }));
+}
+
+/**
+ * Whether a description's preparation agrees with the query's:
+ * 1 = same (or a specific kind of cooking for "cooked"), -1 = different, 0 = either one doesn't say
+ */
+function preparationMatch(foodWords: string[], analysis: QueryAnalysis): number {
+  if (!analysis.preparation) return 0;
+
+  const states = preparationsOf(foodWords);
+  if (states.size === 0) return 0;
+  if (states.has(analysis.preparation)) return 1;
+
+  const cookingMethods = [...states].filter(state => state !== 'raw' && state !== 'dried' && state !== 'cooked');
+  if (analysis.preparation === 'cooked' && cookingMethods.length > 0) return 1;
+  // "Cooked" alone doesn't rule out the method that was asked for
+  if (cookingMethods.length === 0 && states.has('cooked') && analysis.preparation !== 'raw' && analysis.preparation !== 'dried') {
+    return 0;
+  }
+
+  return -1;
+}
+
+/**
+ * How directly a food's description matches the query:
+ * 3 = same words, 2 = starts with the query's words, 1 = contains all of them, 0 = none of these
+ */
+function matchTier(foodWords: string[], analysis: QueryAnalysis): number {
+  return Math.max(0, ...analysis.variants.map(queryWords => {
+    if (queryWords.length === 0) return 0;
+
+    const wanted = new Set(queryWords);
+    const found = (words: string[]) => [...wanted].every(word => words.includes(word));
+
+    if (found(foodWords) && new Set(foodWords).size === wanted.size) return 3;
+    if (found(foodWords.slice(0, queryWords.length))) return 2;
+    if (found(foodWords)) return 1;
+    return 0;
+  }));
+}
+
+/**
+ * Score a food against the query based on multiple factors
+ */
+function scoreFood(food: USDAFood, foodWords: string[], analysis: QueryAnalysis): number {
+  // Word matching score
+  let score = wordMatchRatio(foodWords, analysis) * 100;
+
+  // Reward the preparation the query asked for; a different one changes calories a lot
+  const preparation = preparationMatch(foodWords, analysis);
+  if (preparation > 0) score += 15;
+  else if (preparation < 0) score -= 30;
+  // Without a preparation in the query, prefer the food as bought ("Egg, whole, raw" over "Egg, whole, fried")
+  else if (!analysis.preparation && [...preparationsOf(foodWords)].every(state => state === 'raw')) score += 5;
+
+  // Boost score for data type priority
+  if (food.dataType === 'Foundation') score += 20;
+  else if (food.dataType === 'SR Legacy') score += 15;
+  else if (food.dataType === 'Survey (FNDDS)') score += 10;
+
+  // Boost score if food has calorie information
+  const hasCalories = food.foodNutrients && food.foodNutrients.some(nutrient =>
+    nutrient.nutrientId === ENERGY_NUTRIENT_IDS.ENERGY_KCAL && nutrient.value > 0
+  );
+  if (hasCalories) score += 10;
+
+  // Penalize very long descriptions (usually less relevant)
+  if ((food.description || '').length > 100) score -= 5;
+
+  return score;
+}
+
+interface ScoredFood {
+  food: USDAFood;
+  wordCount: number;
+  tier: number;
+  // 0-100, shown to users
+  matchScore: number;
+  // Used to pick between foods and order them
+  sortScore: number;
+}
+
+function scoreFoods(foods: USDAFood[], query: string): ScoredFood[] {
+  const analysis = analyzeQuery(query);
+
+  return foods.map(food => {
+    const foodWords = stemText(food.description || '');
+    const tier = matchTier(foodWords, analysis);
+    const preparation = preparationMatch(foodWords, analysis);
+
+    // Direct matches score 80-100; otherwise up to 70 for matching words, less for the wrong preparation
+    const wordScore = Math.round(wordMatchRatio(foodWords, analysis) * 70) + (preparation < 0 ? -20 : 0);
+    return {
+      food,
+      wordCount: foodWords.length,
+      tier,
+      matchScore: tier > 0 ? TIER_SCORES[tier]! : Math.min(70, Math.max(0, wordScore)),
+      sortScore: scoreFood(food, foodWords, analysis),
+    };
+  });
+}
+
+/**
+ * Higher score first; on a tie the description with fewer words, which is usually the plainer food
+ */
+const bySortScore = (a: ScoredFood, b: ScoredFood) => b.sortScore - a.sortScore || a.wordCount - b.wordCount;
+
+function pickBest(scored: ScoredFood[]): { food: USDAFood; rule: MatchRule } | null {
+  // Priority 1-3: same words, then description starts with the query, then contains it.
+  // Within a tier, prefer the better-scored food (data type, preparation, energy data).
+  for (const tier of [3, 2, 1]) {
+    const tierBest = scored.filter(candidate => candidate.tier === tier).sort(bySortScore)[0];
+    if (tierBest) return { food: tierBest.food, rule: TIER_RULES[tier]! };
+  }
+
+  // Priority 4: Comprehensive scoring based on multiple factors
+  const bestScored = [...scored].sort(bySortScore)[0];
+  if (bestScored && bestScored.sortScore > 20) {
+    return { food: bestScored.food, rule: 'scored' };
+  }
+
+  // Fallback to first food if available
+  return scored[0] ? { food: scored[0].food, rule: 'fallback' } : null;
+}
+
+/**
+ * Find the best matching food for a query, and the rule that picked it
+ */
+export function findBestMatch(foods: USDAFood[], query: string): { food: USDAFood; rule: MatchRule } | null {
+  return pickBest(scoreFoods(foods, query));
+}
+
+/**
+ * Rank search results for display, with a 0-100 match score per food.
+ * The food findBestMatch would pick always comes first.
+ */
+export function rankFoods(foods: USDAFood[], query: string): Array<{ food: USDAFood; matchScore: number; isBestMatch: boolean }> {
+  const scored = scoreFoods(foods, query);
+  const bestMatch = pickBest(scored)?.food;
+
+  const ranked = scored.map(candidate => ({ ...candidate, isBestMatch: candidate.food === bestMatch }));
+  ranked.sort((a, b) =>
+    Number(b.isBestMatch) - Number(a.isBestMatch) ||
+    b.matchScore - a.matchScore ||
+    bySortScore(a, b)
+  );
+
+  return ranked.map(({ food, matchScore, isBestMatch }) => ({ food, matchScore, isBestMatch }));
+}
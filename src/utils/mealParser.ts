@@ -0,0 +1,91 @@
+import { ParsedMealItem } from '../types';
+import { parseQuantityText } from './units';
+
+// Dishes whose names contain a separator word and must not be split apart
+const COMPOUND_DISHES = [
+  'macaroni and cheese',
+  'mac and cheese',
+  'fish and chips',
+  'peanut butter and jelly',
+  'pb and j',
+  'rice and beans',
+  'beans and rice',
+  'bread and butter',
+  'salt and pepper',
+  'sweet and sour',
+  'sweet and sour chicken',
+  'surf and turf',
+  'biscuits and gravy',
+  'chips and salsa',
+  'chicken and waffles',
+  'spaghetti and meatballs',
+  'cookies and cream',
+  'half and half',
+];
+
+// Words and punctuation that separate one food from the next. Whitespace around them is trimmed
+// from the pieces rather than matched here, which would backtrack over long runs of spaces.
+const SEPARATOR_PATTERN = /[,;\n+&]|\band then\b|\balong with\b|\bwith\b|\band\b|\bplus\b/i;
+
+// Phrases that introduce or close a meal description but name no food
+const LEADING_FILLER_PATTERN = /^(?:(?:today|this morning|tonight)\s+)?(?:i\s+(?:just\s+)?(?:had|ate|drank|eaten)|(?:for\s+)?(?:breakfast|lunch|dinner|snack)(?:\s+(?:was|i\s+had))?:?|some)\s+/i;
+// Only tried from the first space of a run, so a long run of spaces is scanned once
+const TRAILING_FILLER_PATTERN = /(?<!\s)\s+(?:for\s+(?:breakfast|lunch|dinner|a snack)|on the side|too|as well)$/i;
+
+const PLACEHOLDER_AND = '\u0000';
+
+/**
+ * Strip filler words and punctuation around a single food phrase
+ */
+function cleanPhrase(phrase: string): string {
+  let cleaned = phrase.trim().replace(/(?<![.!?])[.!?]+$/, '').trim();
+
+  // Filler can be nested ("for breakfast I had"), so strip until nothing changes
+  let previous: string;
+  do {
+    previous = cleaned;
+    cleaned = cleaned.replace(LEADING_FILLER_PATTERN, '').replace(TRAILING_FILLER_PATTERN, '').trim();
+  } while (cleaned !== previous);
+
+  return cleaned;
+}
+
+/**
+ * Split a meal description into food phrases, keeping known compound dishes together
+ */
+export function splitMealText(text: string): string[] {
+  let protectedText = text;
+  for (const dish of COMPOUND_DISHES) {
+    const pattern = new RegExp(`\\b${dish.replace(/ and /g, '\\s+and\\s+')}\\b`, 'gi');
+    protectedText = protectedText.replace(pattern, match => match.replace(/\band\b/gi, PLACEHOLDER_AND));
+  }
+
+  return protectedText
+    .split(SEPARATOR_PATTERN)
+    .map(phrase => cleanPhrase(phrase.split(PLACEHOLDER_AND).join('and')))
+    .filter(phrase => phrase.length > 0);
+}
+
+/**
+ * Turn a meal description into food items with quantities, using fixed rules only.
+ * Phrases without a stated amount count as one serving.
+ */
+export function parseMealText(text: string): ParsedMealItem[] {
+  return splitMealText(text).map(phrase => {
+    // A compound dish is a name even when it starts like an amount
+    const parsed = COMPOUND_DISHES.includes(phrase.toLowerCase()) ? null : parseQuantityText(phrase);
+
+    if (!parsed) {
+      return { text: phrase, food_name: phrase, quantity: 1, unit: 'serving', parse_confidence: 0.6 };
+    }
+
+    // A stated unit ("2 tbsp") is more reliable than a bare count ("2 eggs")
+    return {
+      text: phrase,
+      food_name: parsed.foodName,
+      quantity: parsed.quantity,
+      unit: parsed.unit,
+      parse_confidence: parsed.unit === 'serving' ? 0.85 : 1,
+    };
+  });
+}
@@ -0,0 +1,116 @@
+import { Macronutrients, MicronutrientAmounts, MicronutrientKey, Micronutrients, MICRONUTRIENTS } from '../types';
+
+// Macronutrients as produced by nutrient extraction or Zod parsing, where optional values may be undefined
+export type MacronutrientValues = {
+  [K in keyof Macronutrients]: Macronutrients[K] | (undefined extends Macronutrients[K] ? undefined : never);
+};
+
+/**
+ * Round a gram value to one decimal place, matching USDA service output
+ */
+export function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Scale macronutrients by a factor, dropping optional nutrients that are absent or zero
+ */
+export function scaleMacronutrients(macros: MacronutrientValues, factor: number): Macronutrients {
+  return {
+    protein: roundToTenth(macros.protein * factor),
+    total_fat: roundToTenth(macros.total_fat * factor),
+    carbohydrates: roundToTenth(macros.carbohydrates * factor),
+    ...(macros.fiber && { fiber: roundToTenth(macros.fiber * factor) }),
+    ...(macros.sugars && { sugars: roundToTenth(macros.sugars * factor) }),
+    ...(macros.saturated_fat && { saturated_fat: roundToTenth(macros.saturated_fat * factor) }),
+  };
+}
+
+/**
+ * Calculate total calories and macronutrients from per-serving values
+ */
+export function calculateTotals(
+  caloriesPerServing: number,
+  macronutrientsPerServing: MacronutrientValues,
+  servings: number
+) {
+  return {
+    totalCalories: Math.round(caloriesPerServing * servings),
+    totalMacronutrients: scaleMacronutrients(macronutrientsPerServing, servings),
+  };
+}
+
+/**
+ * Add up macronutrients, keeping optional nutrients only when at least one value is present
+ */
+export function sumMacronutrients(items: MacronutrientValues[]): Macronutrients {
+  const sum = (pick: (macros: MacronutrientValues) => number | undefined) =>
+    items.reduce((total, macros) => total + (pick(macros) ?? 0), 0);
+
+  return scaleMacronutrients({
+    protein: sum(m => m.protein),
+    total_fat: sum(m => m.total_fat),
+    carbohydrates: sum(m => m.carbohydrates),
+    fiber: sum(m => m.fiber),
+    sugars: sum(m => m.sugars),
+    saturated_fat: sum(m => m.saturated_fat),
+  }, 1);
+}
+
+/**
+ * Calculate calories and macronutrients for a weighed amount of a food
+ */
+export function calculateNutritionForGrams(
+  caloriesPer100g: number,
+  macronutrientsPer100g: MacronutrientValues,
+  grams: number
+) {
+  return {
+    calories: Math.round((caloriesPer100g * grams) / 100),
+    macronutrients: scaleMacronutrients(macronutrientsPer100g, grams / 100),
+  };
+}
+
+/**
+ * Scale micronutrient amounts by a factor, e.g. grams / 100 for per-100g values
+ */
+export function scaleMicronutrientAmounts(amounts: MicronutrientAmounts, factor: number): MicronutrientAmounts {
+  const scaled: MicronutrientAmounts = {};
+  for (const [key, amount] of Object.entries(amounts) as [MicronutrientKey, number][]) {
+    scaled[key] = amount * factor;
+  }
+  return scaled;
+}
+
+/**
+ * Add up micronutrient amounts, keeping every nutrient present in at least one item
+ */
+export function sumMicronutrientAmounts(items: MicronutrientAmounts[]): MicronutrientAmounts {
+  const total: MicronutrientAmounts = {};
+  for (const amounts of items) {
+    for (const [key, amount] of Object.entries(amounts) as [MicronutrientKey, number][]) {
+      total[key] = (total[key] ?? 0) + amount;
+    }
+  }
+  return total;
+}
+
+/**
+ * Convert raw micronutrient amounts to the API shape with units and % Daily Value
+ */
+export function formatMicronutrients(amounts: MicronutrientAmounts): Micronutrients {
+  const formatted: Micronutrients = {};
+  for (const { key, name, unit, dailyValue } of MICRONUTRIENTS) {
+    const amount = amounts[key];
+    if (amount === undefined) continue;
+
+    formatted[key] = {
+      name,
+      // Trace minerals and vitamins need more precision than grams
+      amount: Math.round(amount * 100) / 100,
+      unit,
+      percent_daily_value: dailyValue === null ? null : Math.round((amount / dailyValue) * 100),
+    };
+  }
+  return formatted;
+}
@@ -0,0 +1,221 @@
+import { FoodUnit, HouseholdUnit, PortionInfo, PortionSource, USDAFood, VolumeUnit } from '../types';
+import {
+  convertMassToGrams,
+  convertVolumeToMl,
+  describesHouseholdUnit,
+  isMassUnit,
+  isVolumeUnit,
+  normalizeUnit,
+  parseLeadingQuantity,
+} from './units';
+import { roundToTenth } from './nutrition';
+
+type FoodMeasure = NonNullable<USDAFood['foodMeasures']>[number];
+
+interface GramWeight {
+  grams: number;
+  source: PortionSource;
+  description: string;
+}
+
+/**
+ * Work out which unit a USDA measure is expressed in and how many of that unit it covers
+ */
+function describeMeasure(measure: FoodMeasure): { unit: FoodUnit | null; amount: number } {
+  const leading = parseLeadingQuantity(measure.disseminationText || '');
+  const amount = leading && leading.quantity > 0 ? leading.quantity : 1;
+
+  // Measure unit names are often "undetermined", so fall back to the text ("1 cup, chopped")
+  let textUnit: FoodUnit | null = null;
+  if (leading) {
+    const words = leading.rest.split(/[\s,]+/);
+    textUnit = normalizeUnit(words.slice(0, 2).join(' ')) ?? normalizeUnit(words[0] ?? '');
+  }
+
+  return {
+    unit: normalizeUnit(measure.measureUnitName || '') ??
+      normalizeUnit(measure.measureUnitAbbreviation || '') ??
+      textUnit,
+    amount,
+  };
+}
+
+/**
+ * Parse the label's household serving ("2 tbsp") when the label serving size is in grams
+ */
+function parseLabelServing(food: USDAFood): { unit: FoodUnit | null; amount: number; grams: number } | null {
+  if (!food.servingSize || food.servingSize <= 0 || !food.householdServingFullText) return null;
+  if (normalizeUnit(food.servingSizeUnit || '') !== 'g') return null;
+
+  const leading = parseLeadingQuantity(food.householdServingFullText);
+  if (!leading || leading.quantity <= 0) return null;
+
+  const words = leading.rest.split(/[\s,]+/);
+  return {
+    unit: normalizeUnit(words.slice(0, 2).join(' ')) ?? normalizeUnit(words[0] ?? ''),
+    amount: leading.quantity,
+    grams: food.servingSize,
+  };
+}
+
+/**
+ * Grams in one standard serving of a food
+ */
+export function resolveServingSize(food: USDAFood): GramWeight {
+  // Use provided serving size if available
+  if (food.servingSize && food.servingSize > 0) {
+    // Convert to grams if needed
+    if (food.servingSizeUnit?.toLowerCase().includes('g')) {
+      return {
+        grams: food.servingSize,
+        source: 'label_serving',
+        description: food.householdServingFullText
+          ? `${food.householdServingFullText} (${food.servingSize} ${food.servingSizeUnit})`
+          : `${food.servingSize} ${food.servingSizeUnit}`,
+      };
+    }
+    // For other units, use food measures if available
+    if (food.foodMeasures && food.foodMeasures.length > 0) {
+      const measure = food.foodMeasures.find(m =>
+        m.measureUnitName.toLowerCase().includes(food.servingSizeUnit?.toLowerCase() || '')
+      );
+      if (measure) {
+        return {
+          grams: measure.gramWeight * food.servingSize,
+          source: 'food_measure',
+          description: `${food.servingSize} × ${measure.disseminationText} (${measure.gramWeight} g)`,
+        };
+      }
+    }
+  }
+
+  // Use first food measure if available
+  const primaryMeasure = food.foodMeasures?.[0];
+  if (primaryMeasure) {
+    return {
+      grams: primaryMeasure.gramWeight,
+      source: 'food_measure',
+      description: `${primaryMeasure.disseminationText} (${primaryMeasure.gramWeight} g)`,
+    };
+  }
+
+  // Default to 100g
+  return {
+    grams: 100,
+    source: 'default_100g',
+    description: 'No portion data available, assumed 100 g',
+  };
+}
+
+/**
+ * Grams in one unit of volume, from the food's own measures where possible
+ */
+function resolveVolumeUnit(food: USDAFood, unit: VolumeUnit): GramWeight {
+  const measures = (food.foodMeasures ?? []).map(measure => ({ measure, ...describeMeasure(measure) }));
+
+  // 1. A measure in exactly this unit
+  const exact = measures.find(m => m.unit === unit);
+  if (exact) {
+    return {
+      grams: exact.measure.gramWeight / exact.amount,
+      source: 'food_measure',
+      description: `${exact.measure.disseminationText} (${exact.measure.gramWeight} g)`,
+    };
+  }
+
+  // 2. The label's household serving in this unit
+  const label = parseLabelServing(food);
+  if (label && label.unit === unit) {
+    return {
+      grams: label.grams / label.amount,
+      source: 'label_serving',
+      description: `${food.householdServingFullText} (${label.grams} g)`,
+    };
+  }
+
+  // 3. Density from any other volume measure of the same food
+  const otherVolume = measures.find(m => m.unit !== null && isVolumeUnit(m.unit));
+  if (otherVolume && otherVolume.unit && isVolumeUnit(otherVolume.unit)) {
+    const gramsPerMl = otherVolume.measure.gramWeight / convertVolumeToMl(otherVolume.amount, otherVolume.unit);
+    return {
+      grams: gramsPerMl * convertVolumeToMl(1, unit),
+      source: 'volume_conversion',
+      description: `Converted from ${otherVolume.measure.disseminationText} (${otherVolume.measure.gramWeight} g)`,
+    };
+  }
+
+  if (label && label.unit && isVolumeUnit(label.unit)) {
+    const gramsPerMl = label.grams / convertVolumeToMl(label.amount, label.unit);
+    return {
+      grams: gramsPerMl * convertVolumeToMl(1, unit),
+      source: 'volume_conversion',
+      description: `Converted from label serving ${food.householdServingFullText} (${label.grams} g)`,
+    };
+  }
+
+  // 4. Nothing to go on: assume the density of water
+  return {
+    grams: convertVolumeToMl(1, unit),
+    source: 'density_estimate',
+    description: `No volume data for this food, assumed 1 g/ml`,
+  };
+}
+
+/**
+ * Grams in one household unit (piece, slice, small, medium, large)
+ */
+function resolveHouseholdUnit(food: USDAFood, unit: HouseholdUnit): GramWeight {
+  const measure = (food.foodMeasures ?? []).find(m =>
+    describesHouseholdUnit(`${m.measureUnitName} ${m.modifier} ${m.disseminationText}`, unit)
+  );
+  if (measure) {
+    const { amount } = describeMeasure(measure);
+    return {
+      grams: measure.gramWeight / amount,
+      source: 'food_measure',
+      description: `${measure.disseminationText} (${measure.gramWeight} g)`,
+    };
+  }
+
+  const label = parseLabelServing(food);
+  if (label && food.householdServingFullText && describesHouseholdUnit(food.householdServingFullText, unit)) {
+    return {
+      grams: label.grams / label.amount,
+      source: 'label_serving',
+      description: `${food.householdServingFullText} (${label.grams} g)`,
+    };
+  }
+
+  // No measure for this unit, so one unit is taken to be one standard serving
+  const serving = resolveServingSize(food);
+  return {
+    ...serving,
+    description: `No "${unit}" measure for this food, used one serving: ${serving.description}`,
+  };
+}
+
+/**
+ * Resolve a quantity and unit to grams for a USDA food, reporting which gram weight was used
+ */
+export function resolvePortion(food: USDAFood, quantity: number, unit: FoodUnit): PortionInfo {
+  let gramWeight: GramWeight;
+  if (isMassUnit(unit)) {
+    const grams = convertMassToGrams(1, unit);
+    gramWeight = { grams, source: 'unit_conversion', description: `1 ${unit} = ${roundToTenth(grams)} g` };
+  } else if (isVolumeUnit(unit)) {
+    gramWeight = resolveVolumeUnit(food, unit);
+  } else if (unit === 'serving') {
+    gramWeight = resolveServingSize(food);
+  } else {
+    gramWeight = resolveHouseholdUnit(food, unit);
+  }
+
+  return {
+    quantity,
+    unit,
+    grams_per_unit: roundToTenth(gramWeight.grams),
+    total_grams: roundToTenth(gramWeight.grams * quantity),
+    source: gramWeight.source,
+    description: gramWeight.description,
+  };
+}
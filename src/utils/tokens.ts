@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Random URL-safe token for refresh, verification and reset links
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Tokens are stored as SHA-256 hex digests so a database leak doesn't expose usable tokens
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
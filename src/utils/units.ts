@@ -0,0 +1,188 @@
+import type { FoodUnit, HouseholdUnit, MassUnit, VolumeUnit } from '../types';
+
+// Grams in one of each mass unit
+const GRAMS_PER_MASS_UNIT: Record<MassUnit, number> = {
+  g: 1,
+  kg: 1000,
+  mg: 0.001,
+  oz: 28.349523125,
+  lb: 453.59237,
+};
+
+// Millilitres in one of each volume unit (US customary)
+const ML_PER_VOLUME_UNIT: Record<VolumeUnit, number> = {
+  ml: 1,
+  l: 1000,
+  cup: 236.5882365,
+  tbsp: 14.78676478125,
+  tsp: 4.92892159375,
+  fl_oz: 29.5735295625,
+};
+
+// Words that USDA portion descriptions use for each household unit
+const HOUSEHOLD_UNIT_KEYWORDS: Record<HouseholdUnit, string[]> = {
+  serving: ['serving', 'racc'],
+  piece: ['piece', 'pc', 'each', 'item', 'whole', 'unit'],
+  slice: ['slice'],
+  small: ['small'],
+  medium: ['medium'],
+  large: ['large', 'extra large'],
+};
+
+// Spellings accepted from users (and found in USDA measure names), mapped to canonical units
+const UNIT_ALIASES: Record<string, FoodUnit> = {
+  g: 'g', gram: 'g', grams: 'g', gr: 'g', grm: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg',
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  oz: 'oz', ounce: 'oz', ounces: 'oz', onz: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', mlt: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  cup: 'cup', cups: 'cup',
+  tbsp: 'tbsp', tbs: 'tbsp', tbl: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  'fl oz': 'fl_oz', fl_oz: 'fl_oz', floz: 'fl_oz', 'fluid ounce': 'fl_oz', 'fluid ounces': 'fl_oz',
+  serving: 'serving', servings: 'serving', portion: 'serving', portions: 'serving',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece', each: 'piece', item: 'piece', items: 'piece',
+  slice: 'slice', slices: 'slice',
+  small: 'small',
+  medium: 'medium', med: 'medium',
+  large: 'large',
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 0.25, '½': 0.5, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3, '⅛': 0.125,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  half: 0.5, quarter: 0.25, dozen: 12,
+};
+
+// A number word followed by one of these belongs to a dish name
+const CONJUNCTION_PATTERN = /^(?:and|or|n|&)(?:\s|$)/i;
+
+export function isMassUnit(unit: FoodUnit): unit is MassUnit {
+  return unit in GRAMS_PER_MASS_UNIT;
+}
+
+export function isVolumeUnit(unit: FoodUnit): unit is VolumeUnit {
+  return unit in ML_PER_VOLUME_UNIT;
+}
+
+/**
+ * Convert a quantity in a mass unit to grams
+ */
+export function convertMassToGrams(quantity: number, unit: MassUnit): number {
+  return quantity * GRAMS_PER_MASS_UNIT[unit];
+}
+
+/**
+ * Convert a quantity in a volume unit to millilitres
+ */
+export function convertVolumeToMl(quantity: number, unit: VolumeUnit): number {
+  return quantity * ML_PER_VOLUME_UNIT[unit];
+}
+
+/**
+ * Map a unit spelling (e.g. "Tablespoons", "fl. oz") to its canonical unit, or null if unknown
+ */
+export function normalizeUnit(raw: string): FoodUnit | null {
+  const cleaned = raw.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  return UNIT_ALIASES[cleaned] ?? null;
+}
+
+/**
+ * Check whether a USDA portion description refers to a household unit
+ */
+export function describesHouseholdUnit(text: string, unit: HouseholdUnit): boolean {
+  const lower = text.toLowerCase();
+  return HOUSEHOLD_UNIT_KEYWORDS[unit].some(keyword => new RegExp(`\\b${keyword}\\b`).test(lower));
+}
+
+/**
+ * Parse a leading quantity such as "2", "1.5", "1/2", "1 1/2", "½" or "two"
+ */
+export function parseLeadingQuantity(text: string): { quantity: number; rest: string } | null {
+  const trimmed = text.trim();
+
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)(?=\s|$)/);
+  if (mixed && Number(mixed[3]) > 0) {
+    return {
+      quantity: Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]),
+      rest: trimmed.slice(mixed[0].length).trim(),
+    };
+  }
+
+  const fraction = trimmed.match(/^(\d+)\/(\d+)(?=\s|$)/);
+  if (fraction && Number(fraction[2]) > 0) {
+    return {
+      quantity: Number(fraction[1]) / Number(fraction[2]),
+      rest: trimmed.slice(fraction[0].length).trim(),
+    };
+  }
+
+  // The number must be followed by a space, a unit or the end, so "2% milk" isn't a quantity
+  const decimal = trimmed.match(/^(\d+(?:\.\d+)?|\.\d+)(?:\s*([¼½¾⅓⅔⅛]))?(?=\s|[a-z]|$)/i);
+  if (decimal) {
+    const unicodeFraction = decimal[2] ? UNICODE_FRACTIONS[decimal[2]] ?? 0 : 0;
+    return {
+      quantity: Number(decimal[1]) + unicodeFraction,
+      rest: trimmed.slice(decimal[0].length).trim(),
+    };
+  }
+
+  const unicode = trimmed.match(/^([¼½¾⅓⅔⅛])/);
+  if (unicode) {
+    return {
+      quantity: UNICODE_FRACTIONS[unicode[1]!]!,
+      rest: trimmed.slice(unicode[0].length).trim(),
+    };
+  }
+
+  const word = trimmed.match(/^([a-z]+)\b/i);
+  if (word && NUMBER_WORDS[word[1]!.toLowerCase()] !== undefined) {
+    const rest = trimmed.slice(word[0].length).trim();
+    // In "half and half" the word is part of the name, not an amount
+    if (CONJUNCTION_PATTERN.test(rest)) return null;
+
+    return {
+      quantity: NUMBER_WORDS[word[1]!.toLowerCase()]!,
+      rest,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Split free text like "2 tbsp peanut butter" or "1 1/2 cups of rice" into quantity, unit and food name.
+ * Returns null when the text doesn't start with a quantity.
+ */
+export function parseQuantityText(text: string): { quantity: number; unit: FoodUnit; foodName: string } | null {
+  const leading = parseLeadingQuantity(text);
+  if (!leading || leading.quantity <= 0) return null;
+
+  let rest = leading.rest;
+  let unit: FoodUnit = 'serving';
+
+  // Two-word units ("fl oz", "fluid ounces") before single words ("cup")
+  const words = rest.split(/\s+/);
+  for (const length of [2, 1]) {
+    if (words.length <= length) continue;
+    // A unit only counts when a food name follows it ("2 large eggs", not "2 large")
+    const candidate = normalizeUnit(words.slice(0, length).join(' '));
+    if (candidate) {
+      unit = candidate;
+      rest = words.slice(length).join(' ');
+      break;
+    }
+  }
+
+  // Allow "2 cups of rice"
+  rest = rest.replace(/^of\s+/i, '').trim();
+  if (!rest) return null;
+
+  return { quantity: leading.quantity, unit, foodName: rest };
+}
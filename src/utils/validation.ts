@@ -50,4 +50,19 @@ export function formatValidationErrors(error: ZodError): ValidationErrorResponse
   }
   
   return response;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Escape LIKE/ILIKE wildcards so user input only matches literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Parse a positive integer route parameter, returning null for anything else
+ */
+export function parseIdParam(rawId: string | undefined): number | null {
+  const id = Number(rawId);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}